@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { GlossaryService } from '../services/glossary.service';
+
+export class GlossaryController {
+  private glossaryService: GlossaryService;
+
+  constructor() {
+    this.glossaryService = GlossaryService.getInstance();
+  }
+
+  async listGlossaries(req: Request, res: Response): Promise<void> {
+    try {
+      const glossaries = this.glossaryService.list();
+
+      res.json({
+        success: true,
+        total: glossaries.length,
+        glossaries
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao listar glossários:', error);
+      res.status(500).json({
+        error: 'Erro ao listar glossários',
+        detail: error.message
+      });
+    }
+  }
+
+  async getGlossary(req: Request, res: Response): Promise<void> {
+    const glossary = this.glossaryService.get(req.params.id);
+
+    if (!glossary) {
+      res.status(404).json({
+        error: 'Glossário não encontrado',
+        detail: `Nenhum glossário com id "${req.params.id}"`
+      });
+      return;
+    }
+
+    res.json({ success: true, glossary });
+  }
+
+  async createGlossary(req: Request, res: Response): Promise<void> {
+    try {
+      const input = this.glossaryService.validate(req.body);
+      if (typeof input === 'string') {
+        res.status(400).json({
+          error: 'Glossário inválido',
+          detail: input
+        });
+        return;
+      }
+
+      if (input.id && this.glossaryService.has(input.id)) {
+        res.status(409).json({
+          error: 'Glossário já existe',
+          detail: `Já existe um glossário com id "${input.id}"`
+        });
+        return;
+      }
+
+      const glossary = this.glossaryService.create(input);
+      res.status(201).json({ success: true, glossary });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar glossário:', error);
+      res.status(500).json({
+        error: 'Erro ao criar glossário',
+        detail: error.message
+      });
+    }
+  }
+
+  async updateGlossary(req: Request, res: Response): Promise<void> {
+    try {
+      const input = this.glossaryService.validate(req.body);
+      if (typeof input === 'string') {
+        res.status(400).json({
+          error: 'Glossário inválido',
+          detail: input
+        });
+        return;
+      }
+
+      const glossary = this.glossaryService.update(req.params.id, input);
+      if (!glossary) {
+        res.status(404).json({
+          error: 'Glossário não encontrado',
+          detail: `Nenhum glossário com id "${req.params.id}"`
+        });
+        return;
+      }
+
+      res.json({ success: true, glossary });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao atualizar glossário:', error);
+      res.status(500).json({
+        error: 'Erro ao atualizar glossário',
+        detail: error.message
+      });
+    }
+  }
+
+  async deleteGlossary(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.glossaryService.delete(req.params.id)) {
+        res.status(404).json({
+          error: 'Glossário não encontrado',
+          detail: `Nenhum glossário com id "${req.params.id}"`
+        });
+        return;
+      }
+
+      res.json({ success: true, message: `Glossário "${req.params.id}" removido` });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao remover glossário:', error);
+      res.status(500).json({
+        error: 'Erro ao remover glossário',
+        detail: error.message
+      });
+    }
+  }
+}
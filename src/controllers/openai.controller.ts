@@ -0,0 +1,241 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import { TranslationService } from '../services/translation.service';
+import { TranscriptionContext, TranscriptionResult, TranscriptionSegment, WhisperService } from '../services/whisper.service';
+import { SubtitleCue, serializeSubtitles } from '../utils/subtitle-formats';
+
+const RESPONSE_FORMATS = ['json', 'text', 'srt', 'vtt', 'verbose_json'] as const;
+
+type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+type AudioTask = 'transcribe' | 'translate';
+
+/**
+ * Endpoints compatíveis com a API de áudio da OpenAI (/v1/audio/*)
+ */
+export class OpenAIController {
+  private translationService: TranslationService;
+  private whisperService: WhisperService;
+
+  constructor() {
+    this.translationService = new TranslationService();
+    this.whisperService = new WhisperService();
+  }
+
+  /**
+   * POST /v1/audio/transcriptions
+   */
+  async createTranscription(req: Request, res: Response): Promise<void> {
+    await this.handleAudioRequest(req, res, 'transcribe');
+  }
+
+  /**
+   * POST /v1/audio/translations (sempre traduz para inglês)
+   */
+  async createTranslation(req: Request, res: Response): Promise<void> {
+    await this.handleAudioRequest(req, res, 'translate');
+  }
+
+  private async handleAudioRequest(req: Request, res: Response, task: AudioTask): Promise<void> {
+    const audioFile = req.file;
+
+    try {
+      if (!audioFile) {
+        this.sendError(res, 400, "Missing required parameter: 'file'", 'file');
+        return;
+      }
+
+      const responseFormat = (req.body.response_format || 'json') as ResponseFormat;
+      if (!RESPONSE_FORMATS.includes(responseFormat)) {
+        this.sendError(
+          res,
+          400,
+          `Invalid response_format '${responseFormat}'. Expected one of: ${RESPONSE_FORMATS.join(', ')}`,
+          'response_format'
+        );
+        return;
+      }
+
+      let temperature: number | undefined;
+      if (req.body.temperature !== undefined && req.body.temperature !== '') {
+        temperature = parseFloat(req.body.temperature);
+        if (isNaN(temperature) || temperature < 0 || temperature > 1) {
+          this.sendError(res, 400, 'temperature must be a number between 0 and 1', 'temperature');
+          return;
+        }
+      }
+
+      // multer converte "timestamp_granularities[]" em array
+      const granularities: string[] = [].concat(req.body.timestamp_granularities || []);
+      const wordTimestamps = granularities.includes('word');
+      if (wordTimestamps && responseFormat !== 'verbose_json') {
+        this.sendError(
+          res,
+          400,
+          "timestamp_granularities requires response_format 'verbose_json'",
+          'timestamp_granularities'
+        );
+        return;
+      }
+
+      const language = task === 'transcribe' ? req.body.language || 'auto' : 'auto';
+      if (language !== 'auto' && !this.translationService.isSupportedLanguage(language)) {
+        this.sendError(
+          res,
+          400,
+          `Unsupported language '${language}'. Expected one of: ${this.translationService.getSupportedLanguages().map(l => l.code).join(', ')}`,
+          'language'
+        );
+        return;
+      }
+
+      console.log(`🔌 OpenAI ${task}: ${audioFile.originalname} (model: ${req.body.model || 'whisper-1'}, formato: ${responseFormat})`);
+
+      const context: TranscriptionContext = {
+        prompt: req.body.prompt,
+        language,
+        temperature,
+        wordTimestamps
+      };
+
+      const transcription = await this.whisperService.transcribeFile(audioFile.path, context);
+      const result = task === 'translate'
+        ? await this.translateToEnglish(transcription)
+        : transcription;
+
+      this.sendResult(res, result, responseFormat, task, granularities);
+
+    } catch (error: any) {
+      console.error(`❌ Erro no endpoint OpenAI (${task}):`, error);
+      this.sendError(res, 500, error.message, null, 'server_error');
+    } finally {
+      if (audioFile && fs.existsSync(audioFile.path)) {
+        fs.unlinkSync(audioFile.path);
+      }
+    }
+  }
+
+  /**
+   * Traduz os segmentos para inglês mantendo os tempos originais
+   */
+  private async translateToEnglish(transcription: TranscriptionResult): Promise<TranscriptionResult> {
+    const sourceLanguage = transcription.language || 'auto';
+    if (sourceLanguage === 'en') {
+      return transcription;
+    }
+
+    const translations = await this.translationService.translateSegmentTexts(
+      transcription.segments.map(segment => segment.text),
+      'en',
+      sourceLanguage
+    );
+
+    const segments: TranscriptionSegment[] = transcription.segments.map((segment, index) => ({
+      ...segment,
+      text: translations[index].text
+    }));
+
+    return {
+      ...transcription,
+      text: segments.map(s => s.text).join(' '),
+      segments,
+      language: 'en'
+    };
+  }
+
+  private sendResult(
+    res: Response,
+    result: TranscriptionResult,
+    format: ResponseFormat,
+    task: AudioTask,
+    granularities: string[]
+  ): void {
+    switch (format) {
+      case 'text':
+        res.type('text/plain').send(result.text);
+        return;
+      case 'srt':
+        res.type('text/plain').send(serializeSubtitles(this.toCues(result.segments), 'srt'));
+        return;
+      case 'vtt':
+        res.type('text/plain').send(serializeSubtitles(this.toCues(result.segments), 'vtt'));
+        return;
+      case 'verbose_json': {
+        // Sem timestamp_granularities a OpenAI devolve apenas segmentos
+        const includeWords = granularities.includes('word');
+        const includeSegments = granularities.length === 0 || granularities.includes('segment');
+
+        res.json({
+          task,
+          language: this.getLanguageLabel(result.language),
+          duration: result.duration || 0,
+          text: result.text,
+          words: includeWords
+            ? result.segments.flatMap(segment => (segment.words || []).map(word => ({
+                word: word.word,
+                start: word.start,
+                end: word.end
+              })))
+            : undefined,
+          segments: includeSegments
+            ? result.segments.map(segment => ({
+                id: segment.id,
+                seek: segment.seek ?? 0,
+                start: segment.start,
+                end: segment.end,
+                text: segment.text,
+                tokens: segment.tokens || [],
+                temperature: segment.temperature ?? 0,
+                avg_logprob: segment.avg_logprob ?? 0,
+                compression_ratio: segment.compression_ratio ?? 0,
+                no_speech_prob: segment.no_speech_prob ?? 0
+              }))
+            : undefined
+        });
+        return;
+      }
+      default:
+        res.json({ text: result.text });
+    }
+  }
+
+  /**
+   * A OpenAI devolve o nome do idioma em minúsculas ("portuguese")
+   */
+  private getLanguageLabel(code?: string): string {
+    const language = this.translationService.getSupportedLanguages().find(l => l.code === code);
+    return language ? language.name.toLowerCase() : code || 'unknown';
+  }
+
+  /**
+   * Segmentos como legendas, com o nome do falante quando houver diarização
+   */
+  private toCues(segments: TranscriptionSegment[]): SubtitleCue[] {
+    return segments.map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      speaker: segment.speaker ? segment.speakerName || segment.speaker : undefined
+    }));
+  }
+
+  /**
+   * Erros no formato da OpenAI para que os SDKs consigam interpretá-los
+   */
+  private sendError(
+    res: Response,
+    status: number,
+    message: string,
+    param: string | null,
+    type: string = 'invalid_request_error'
+  ): void {
+    res.status(status).json({
+      error: {
+        message,
+        type,
+        param,
+        code: null
+      }
+    });
+  }
+}
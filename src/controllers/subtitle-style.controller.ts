@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import { SubtitleStyleService } from '../services/subtitle-style.service';
+
+export class SubtitleStyleController {
+  private styleService: SubtitleStyleService;
+
+  constructor() {
+    this.styleService = SubtitleStyleService.getInstance();
+  }
+
+  async listPresets(req: Request, res: Response): Promise<void> {
+    try {
+      const presets = this.styleService.list();
+
+      res.json({
+        success: true,
+        total: presets.length,
+        presets
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao listar presets de legenda:', error);
+      res.status(500).json({
+        error: 'Erro ao listar presets de legenda',
+        detail: error.message
+      });
+    }
+  }
+
+  async getPreset(req: Request, res: Response): Promise<void> {
+    const preset = this.styleService.get(req.params.id);
+
+    if (!preset) {
+      res.status(404).json({
+        error: 'Preset de legenda não encontrado',
+        detail: `Nenhum preset com id "${req.params.id}"`
+      });
+      return;
+    }
+
+    // Inclui o estilo final (com a base e o preset "default") para conferência
+    res.json({ success: true, preset, resolved: this.styleService.resolve(preset.id) });
+  }
+
+  async createPreset(req: Request, res: Response): Promise<void> {
+    try {
+      const input = this.styleService.validatePreset(req.body);
+      if (typeof input === 'string') {
+        res.status(400).json({
+          error: 'Preset de legenda inválido',
+          detail: input
+        });
+        return;
+      }
+
+      if (input.id && this.styleService.has(input.id)) {
+        res.status(409).json({
+          error: 'Preset de legenda já existe',
+          detail: `Já existe um preset com id "${input.id}"`
+        });
+        return;
+      }
+
+      const preset = this.styleService.create(input);
+      res.status(201).json({ success: true, preset });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao criar preset de legenda:', error);
+      res.status(500).json({
+        error: 'Erro ao criar preset de legenda',
+        detail: error.message
+      });
+    }
+  }
+
+  async updatePreset(req: Request, res: Response): Promise<void> {
+    try {
+      const input = this.styleService.validatePreset(req.body);
+      if (typeof input === 'string') {
+        res.status(400).json({
+          error: 'Preset de legenda inválido',
+          detail: input
+        });
+        return;
+      }
+
+      const preset = this.styleService.update(req.params.id, input);
+      if (!preset) {
+        res.status(404).json({
+          error: 'Preset de legenda não encontrado',
+          detail: `Nenhum preset com id "${req.params.id}"`
+        });
+        return;
+      }
+
+      res.json({ success: true, preset });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao atualizar preset de legenda:', error);
+      res.status(500).json({
+        error: 'Erro ao atualizar preset de legenda',
+        detail: error.message
+      });
+    }
+  }
+
+  async deletePreset(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!this.styleService.delete(id)) {
+        if (this.styleService.isBuiltIn(id)) {
+          res.status(400).json({
+            error: 'Preset de fábrica não pode ser removido',
+            detail: `O preset "${id}" não foi alterado; só versões sobrescritas podem ser descartadas`
+          });
+          return;
+        }
+
+        res.status(404).json({
+          error: 'Preset de legenda não encontrado',
+          detail: `Nenhum preset com id "${id}"`
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        message: this.styleService.isBuiltIn(id)
+          ? `Preset "${id}" restaurado para o original`
+          : `Preset "${id}" removido`
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao remover preset de legenda:', error);
+      res.status(500).json({
+        error: 'Erro ao remover preset de legenda',
+        detail: error.message
+      });
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import fs from 'fs';
+import {
+  detectSubtitleFormat,
+  isSubtitleFormat,
+  parseSubtitles,
+  serializeSubtitles,
+  SUBTITLE_FORMAT_INFO,
+  SUBTITLE_FORMATS,
+  SubtitleParseError
+} from '../utils/subtitle-formats';
+
+export class SubtitleController {
+
+  /**
+   * POST /api/subtitles/convert
+   * Aceita um arquivo (campo "file") ou o conteúdo no corpo (campo "content") e devolve o arquivo convertido
+   */
+  async convert(req: Request, res: Response): Promise<void> {
+    const uploadedFile = req.file;
+
+    try {
+      const to = req.body.to;
+      if (!isSubtitleFormat(to)) {
+        res.status(400).json({
+          error: 'Formato de destino inválido',
+          detail: `Campo "to" deve ser um de: ${SUBTITLE_FORMATS.join(', ')}`
+        });
+        return;
+      }
+
+      let content: string;
+      if (uploadedFile) {
+        content = fs.readFileSync(uploadedFile.path, 'utf8');
+      } else if (typeof req.body.content === 'string') {
+        content = req.body.content;
+      } else if (req.body.content !== undefined && (req.body.from === 'json' || req.body.from === undefined)) {
+        // Segmentos enviados diretamente como JSON
+        content = JSON.stringify(req.body.content);
+      } else {
+        res.status(400).json({
+          error: 'Nenhuma legenda enviada',
+          detail: 'Envie o arquivo no campo "file" ou o conteúdo no campo "content"'
+        });
+        return;
+      }
+
+      const from = req.body.from || detectSubtitleFormat(content, uploadedFile?.originalname);
+      if (!isSubtitleFormat(from)) {
+        res.status(400).json({
+          error: 'Formato de origem inválido',
+          detail: req.body.from
+            ? `Campo "from" deve ser um de: ${SUBTITLE_FORMATS.join(', ')}`
+            : 'Não foi possível identificar o formato; informe o campo "from"'
+        });
+        return;
+      }
+
+      const cues = parseSubtitles(content, from);
+      const converted = serializeSubtitles(cues, to, {
+        speakerLabels: req.body.speakerLabels !== false && req.body.speakerLabels !== 'false',
+        language: req.body.language
+      });
+
+      console.log(`🔁 Legendas convertidas: ${from} -> ${to} (${cues.length} legendas)`);
+
+      const baseName = (uploadedFile?.originalname || 'subtitles').replace(/\.[^/.]+$/, '');
+      const info = SUBTITLE_FORMAT_INFO[to];
+
+      res.setHeader('Content-Type', `${info.mimeType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${baseName}.${info.extension}"`);
+      res.send(converted);
+
+    } catch (error: any) {
+      if (error instanceof SubtitleParseError) {
+        res.status(400).json({
+          error: 'Erro ao ler legendas',
+          detail: error.message,
+          line: error.line
+        });
+        return;
+      }
+
+      console.error('❌ Erro na conversão de legendas:', error);
+      res.status(500).json({
+        error: 'Erro interno do servidor',
+        detail: error.message
+      });
+
+    } finally {
+      if (uploadedFile && fs.existsSync(uploadedFile.path)) {
+        fs.unlinkSync(uploadedFile.path);
+      }
+    }
+  }
+}
@@ -1,183 +1,1201 @@
 import { Request, Response } from 'express';
 import fs from 'fs';
 import path from 'path';
-import { TranslationService } from '../services/translation.service';
-import { VideoService } from '../services/video.service';
-import { WhisperService, TranscriptionContext } from '../services/whisper.service';
+import {
+  ProviderSelection,
+  SegmentBatchOptions,
+  SegmentTranslationMode,
+  TranslatedTranscriptionSegment,
+  TranslationService
+} from '../services/translation.service';
+import { DiarizationOptions } from '../services/diarization.service';
+import { DubbingOptions, DubbingService, DubTrack, TTS_ENGINES, TTSEngine } from '../services/dubbing.service';
+import { GlossaryRules, GlossaryService } from '../services/glossary.service';
+import { QualitySummary } from '../services/translation-qa.service';
+import { LayoutOptions, SubtitleLayoutService } from '../services/subtitle-layout.service';
+import { ReflowOptions, ReflowStats, SubtitleReflowService } from '../services/subtitle-reflow.service';
+import { STYLE_FIELDS, SubtitleStyleService } from '../services/subtitle-style.service';
+import { VadOptions } from '../services/vad.service';
+import { ENCODING_PROFILE_IDS, ENCODING_PROFILES, EncodingProfile, isEncodingProfile } from '../utils/encoding-profiles';
+import { setField } from '../utils/objects';
+import { HLS_LADDER, HlsOptions, HlsResult, SoftSubtitleOptions, SubtitleStyle, VideoService } from '../services/video.service';
+import {
+  BilingualOptions,
+  detectSubtitleFormat,
+  isSubtitleFormat,
+  parseSubtitles,
+  SUBTITLE_FORMAT_INFO,
+  SUBTITLE_FORMATS,
+  SubtitleCue,
+  SubtitleFormat,
+  SubtitleParseError
+} from '../utils/subtitle-formats';
+import { WhisperService, TranscriptionContext, TranscriptionSegment } from '../services/whisper.service';
 
 export interface TranslatedSegment {
   start: number;
   end: number;
   text: string;
+  speaker?: string;
+}
+
+export type SubtitleMode = 'burn' | 'soft';
+
+interface LanguageOutput {
+  language: string;
+  translated: boolean;
+  segments: TranslatedTranscriptionSegment[];
+  videoSegments: TranslatedSegment[];  // Após o reflow (linhas, divisões e tempos ajustados)
+  reflow: ReflowStats;
+  qa?: QualitySummary;
 }
 
 export class TranscriptionController {
   private videoService: VideoService;
   private translationService: TranslationService;
   private whisperService: WhisperService;
+  private glossaryService: GlossaryService;
+  private reflowService: SubtitleReflowService;
+  private styleService: SubtitleStyleService;
+  private layoutService: SubtitleLayoutService;
+  private dubbingService: DubbingService;
 
   constructor() {
     this.videoService = new VideoService();
     this.translationService = new TranslationService();
     this.whisperService = new WhisperService();
+    this.glossaryService = GlossaryService.getInstance();
+    this.reflowService = new SubtitleReflowService();
+    this.styleService = SubtitleStyleService.getInstance();
+    this.layoutService = new SubtitleLayoutService();
+    this.dubbingService = new DubbingService();
   }
 
   async transcribeAndGenerateVideo(req: Request, res: Response): Promise<void> {
     try {
       console.log('🎙️ Iniciando transcrição e geração de vídeo');
 
-      // Verificar se o arquivo foi enviado
-      const videoFile = req.file;
+      // Verificar se o arquivo foi enviado
+      const videoFile = req.file;
+
+      if (!videoFile) {
+        res.status(400).json({
+          error: 'Nenhum arquivo de vídeo enviado',
+          detail: 'Campo "video" é obrigatório'
+        });
+        return;
+      }
+
+      console.log(`✅ Arquivo recebido: ${videoFile.originalname} (${videoFile.mimetype})`);
+
+      const requestedLanguages = this.parseIdList(req.body.targetLanguages);
+      if (requestedLanguages === null) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Idiomas de destino inválidos',
+          detail: 'Campo "targetLanguages" deve ser um array JSON ou uma lista separada por vírgulas, ex.: pt,en,es'
+        });
+        return;
+      }
+
+      // Vários idiomas na mesma requisição: transcreve uma vez e traduz para cada um
+      const targetLanguages = requestedLanguages.length > 0
+        ? Array.from(new Set(requestedLanguages))
+        : [req.body.targetLanguage || 'pt'];
+      const targetLanguage = targetLanguages[0];
+
+      // Os códigos viram nomes de arquivo e entram nos prompts: só os idiomas suportados passam
+      const unsupportedLanguages = this.unsupportedLanguages(targetLanguages);
+      if (unsupportedLanguages) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Idiomas de destino não suportados',
+          detail: unsupportedLanguages
+        });
+        return;
+      }
+
+      const sourceLanguage = req.body.language || 'auto';
+      if (sourceLanguage !== 'auto' && !this.translationService.isSupportedLanguage(sourceLanguage)) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Idioma do áudio inválido',
+          detail: `Campo "language" deve ser "auto" ou um destes códigos: ${this.translationService.getSupportedLanguages().map(l => l.code).join(', ')}`
+        });
+        return;
+      }
+
+      const subtitleMode = this.parseSubtitleMode(req.body.subtitleMode);
+      if (!subtitleMode) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Modo de legenda inválido',
+          detail: 'Campo "subtitleMode" deve ser "burn" (um vídeo por idioma) ou "soft" (um vídeo com uma faixa por idioma)'
+        });
+        return;
+      }
+
+      const outputProfile = this.parseOutputProfile(req.body, subtitleMode);
+      if (typeof outputProfile === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Perfil de saída inválido',
+          detail: outputProfile
+        });
+        return;
+      }
+
+      // Ao gravar a legenda não há faixas: container e formato não se aplicam (o audio-only grava só o áudio em m4a)
+      const softOptions = subtitleMode === 'soft'
+        ? this.parseSoftSubtitleOptions(req.body, targetLanguages, outputProfile)
+        : undefined;
+      if (typeof softOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de faixas de legenda inválidas',
+          detail: softOptions
+        });
+        return;
+      }
+
+      const subtitleStyle = this.parseSubtitleStyle(req.body);
+      if (typeof subtitleStyle === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Estilo de legenda inválido',
+          detail: subtitleStyle
+        });
+        return;
+      }
+
+      const bilingual = this.parseBilingualOptions(req.body, subtitleStyle);
+      if (typeof bilingual === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de legenda bilíngue inválidas',
+          detail: bilingual
+        });
+        return;
+      }
+
+      const layoutOptions = this.parseLayoutOptions(req.body);
+      if (typeof layoutOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Layout de legenda inválido',
+          detail: layoutOptions
+        });
+        return;
+      }
+
+      const hlsOptions = this.parseHlsOptions(req.body, targetLanguages);
+      if (typeof hlsOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de HLS inválidas',
+          detail: hlsOptions
+        });
+        return;
+      }
+
+      const dubbing = this.parseDubbingOptions(req.body, targetLanguages, sourceLanguage);
+      if (typeof dubbing === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de dublagem inválidas',
+          detail: dubbing
+        });
+        return;
+      }
+
+      // Conferir o TTS antes de transcrever, para não perder o trabalho.
+      // Sem o binário, o recurso pedido não existe neste servidor: 501, não uma falha interna
+      if (dubbing && !(await this.dubbingService.isEngineAvailable(dubbing.options.engine!))) {
+        fs.unlinkSync(videoFile.path);
+        res.status(501).json({
+          error: 'Motor de TTS não encontrado',
+          detail: `Instale o ${dubbing.options.engine} (ou configure ${dubbing.options.engine === 'piper' ? 'PIPER_BIN' : 'ESPEAK_BIN'}) para gerar a dublagem`
+        });
+        return;
+      }
+
+      const requestedFormats = this.parseIdList(req.body.subtitleFormats);
+      if (requestedFormats === null || requestedFormats.some(format => !isSubtitleFormat(format))) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Formatos de legenda inválidos',
+          detail: `Campo "subtitleFormats" deve listar formatos entre: ${SUBTITLE_FORMATS.join(', ')}`
+        });
+        return;
+      }
+      const subtitleFormats: SubtitleFormat[] = requestedFormats.length > 0
+        ? Array.from(new Set(requestedFormats.filter(isSubtitleFormat)))
+        : ['srt'];
+      const timestampGranularity = req.body.timestampGranularity || 'segment';
+
+      if (!['segment', 'word'].includes(timestampGranularity)) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Granularidade de timestamp inválida',
+          detail: 'Campo "timestampGranularity" deve ser "segment" ou "word"'
+        });
+        return;
+      }
+      
+      const translationMode: SegmentTranslationMode = req.body.translationMode || 'batch';
+
+      if (!['batch', 'segment'].includes(translationMode)) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Modo de tradução inválido',
+          detail: 'Campo "translationMode" deve ser "batch" ou "segment"'
+        });
+        return;
+      }
+
+      const translationSelection = this.parseProviderSelection(
+        req.body.translationProvider,
+        req.body.translationModel,
+        req.body.translationFallback,
+        req.body.translationMemory
+      );
+      if (typeof translationSelection === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Provedor de tradução inválido',
+          detail: translationSelection
+        });
+        return;
+      }
+
+      const vocabulary = this.parseIdList(req.body.vocabulary);
+      if (vocabulary === null) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Vocabulário inválido',
+          detail: 'Campo "vocabulary" deve ser um array JSON ou uma lista separada por vírgulas'
+        });
+        return;
+      }
+
+      const glossaryRules = this.parseGlossaryRules(req.body.glossaries, vocabulary);
+      if (typeof glossaryRules === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Glossário inválido',
+          detail: glossaryRules
+        });
+        return;
+      }
+      translationSelection.glossary = glossaryRules;
+
+      const vadOptions = this.parseVadOptions(req.body);
+      if (typeof vadOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de VAD inválidas',
+          detail: vadOptions
+        });
+        return;
+      }
+      
+      const diarizationOptions = this.parseDiarizationOptions(req.body);
+      if (typeof diarizationOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de diarização inválidas',
+          detail: diarizationOptions
+        });
+        return;
+      }
+
+      const reflowOptions = this.parseReflowOptions(req.body);
+      if (typeof reflowOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de reflow inválidas',
+          detail: reflowOptions
+        });
+        return;
+      }
+      
+      // Preparar contexto para o Whisper
+      const context: TranscriptionContext = {
+        prompt: req.body.prompt,
+        vocabulary: vocabulary.length > 0 ? vocabulary : undefined,
+        topic: req.body.topic,
+        speaker: req.body.speaker,
+        language: sourceLanguage,
+        wordTimestamps: timestampGranularity === 'word',
+        vad: vadOptions,
+        diarization: diarizationOptions
+      };
+
+      console.log(`🌍 Idioma origem: ${sourceLanguage}, destino: ${targetLanguages.join(', ')}`);
+
+      // Passo 1: Transcrever usando WhisperService melhorado
+      console.log('🎙️ Transcrevendo com Whisper...');
+      const transcriptionResult = await this.whisperService.transcribeFile(videoFile.path, context);
+
+      // Com "auto", usar o idioma identificado no áudio como origem da tradução
+      const detectedLanguage = sourceLanguage === 'auto'
+        ? transcriptionResult.languageDetection?.language || transcriptionResult.language || sourceLanguage
+        : sourceLanguage;
+
+      if (sourceLanguage === 'auto') {
+        console.log(`🌐 Idioma de origem identificado: ${detectedLanguage}`);
+      }
+
+      // QA opcional por retrotradução
+      const qaEnabled = req.body.qa === true || req.body.qa === 'true';
+
+      // Passo 2: Traduzir os segmentos para cada idioma pedido
+      const outputs: LanguageOutput[] = [];
+      for (const language of targetLanguages) {
+        outputs.push(await this.buildLanguageOutput(
+          transcriptionResult.segments,
+          language,
+          detectedLanguage,
+          { ...translationSelection, mode: translationMode },
+          reflowOptions,
+          qaEnabled,
+          bilingual !== undefined
+        ));
+      }
+
+      console.log(`📝 ${transcriptionResult.segments.length} segmentos processados em ${outputs.length} idioma(s)`);
+
+      // Passo 3: Gerar vídeo(s) com legendas
+      // Id do job nos nomes: dois envios com o mesmo nome de arquivo não se sobrescrevem
+      const jobId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+      const originalName = videoFile.originalname.replace(/\.[^/.]+$/, '');
+      const baseName = `${originalName}_${jobId}`;
+      const multiLanguage = outputs.length > 1;
+      const outputPaths: string[] = [];  // Tudo o que este job grava em temp/, removido após o download
+      const videos = new Map<string, { downloadUrl: string; fileName: string }>();
+      let subtitleLayout: object | undefined;  // O mesmo para todos os idiomas (depende só do vídeo)
+
+      // Passo 3a: Dublagem dos idiomas traduzidos (frases inteiras, antes do reflow)
+      const dubTracks: DubTrack[] = [];
+      if (dubbing) {
+        // Com origem "auto", só agora se sabe se algum idioma pedido foi de fato traduzido
+        const dubOutputs = outputs.filter(output => output.translated && dubbing.languages.includes(output.language));
+        if (dubOutputs.length === 0) {
+          fs.unlinkSync(videoFile.path);
+          res.status(422).json({
+            error: 'Nada para dublar',
+            detail: `O áudio está em ${detectedLanguage}, o mesmo idioma pedido para a dublagem (${dubbing.languages.join(', ')})`
+          });
+          return;
+        }
+
+        try {
+          for (const output of dubOutputs) {
+            const track = await this.dubbingService.buildDubTrack(output.language, output.segments, dubbing.options);
+            dubTracks.push(track);
+          }
+        } catch (error: any) {
+          fs.unlinkSync(videoFile.path);
+          this.dubbingService.cleanup(dubTracks);
+
+          res.status(500).json({
+            error: 'Falha ao gerar dublagem',
+            detail: error.message
+          });
+          return;
+        }
+      }
+
+      // As faixas dubladas só servem para a mixagem: removidas em qualquer saída deste passo
+      try {
+        if (softOptions) {
+          const result = await this.videoService.generateVideoWithSoftSubtitles(
+            videoFile.path,
+            outputs.map(output => ({ language: output.language, segments: output.videoSegments })),
+            { ...softOptions, profile: outputProfile, style: subtitleStyle, bilingual }
+          );
+
+          if (!result.success) {
+            fs.unlinkSync(videoFile.path);
+            res.status(500).json({
+              error: 'Falha ao gerar vídeo com faixas de legenda',
+              detail: result.message
+            });
+            return;
+          }
+
+          outputPaths.push(result.outputPath!);
+
+          const dubbed = await this.addDubbedAudio(result.outputPath!, dubTracks, dubbing ? dubbing.options : {});
+          if (typeof dubbed !== 'string') {
+            fs.unlinkSync(videoFile.path);
+            outputPaths.filter(outputPath => fs.existsSync(outputPath)).forEach(outputPath => fs.unlinkSync(outputPath));
+            res.status(500).json(dubbed);
+            return;
+          }
+          if (dubbed !== result.outputPath) {
+            outputPaths.push(dubbed);
+          }
+
+          const downloadFileName = `${baseName}_with_subtitle_tracks.${softOptions.container}`;
+          const downloadPath = path.join(__dirname, '../../temp', downloadFileName);
+          fs.copyFileSync(dubbed, downloadPath);
+          outputPaths.push(downloadPath);
+          outputs.forEach(output => videos.set(output.language, { downloadUrl: `/download/${downloadFileName}`, fileName: downloadFileName }));
+
+        } else {
+          for (const output of outputs) {
+            const result = await this.videoService.generateVideoWithSubtitles(
+              videoFile.path,
+              output.videoSegments,
+              subtitleStyle,
+              { bilingual, layout: layoutOptions, profile: outputProfile }
+            );
+
+            if (!result.success) {
+              // Limpar arquivos temporários
+              fs.unlinkSync(videoFile.path);
+              outputPaths.filter(outputPath => fs.existsSync(outputPath)).forEach(outputPath => fs.unlinkSync(outputPath));
+
+              res.status(500).json({
+                error: 'Falha ao gerar vídeo com legendas',
+                detail: `${output.language}: ${result.message}`
+              });
+              return;
+            }
+
+            outputPaths.push(result.outputPath!);
+            subtitleLayout = subtitleLayout || (result.layout && { video: result.video, ...result.layout });
+
+            const dubbed = await this.addDubbedAudio(
+              result.outputPath!,
+              dubTracks.filter(track => track.language === output.language),
+              dubbing ? dubbing.options : {}
+            );
+            if (typeof dubbed !== 'string') {
+              fs.unlinkSync(videoFile.path);
+              outputPaths.filter(outputPath => fs.existsSync(outputPath)).forEach(outputPath => fs.unlinkSync(outputPath));
+              res.status(500).json(dubbed);
+              return;
+            }
+            if (dubbed !== result.outputPath) {
+              outputPaths.push(dubbed);
+            }
+
+            // Mover o arquivo para a pasta de download com nome padronizado
+            const extension = path.extname(result.outputPath!);
+            const downloadFileName = multiLanguage
+              ? `${baseName}_${output.language}_with_subtitles${extension}`
+              : `${baseName}_with_subtitles${extension}`;
+            const downloadPath = path.join(__dirname, '../../temp', downloadFileName);
+            fs.copyFileSync(dubbed, downloadPath);
+            outputPaths.push(downloadPath);
+            videos.set(output.language, { downloadUrl: `/download/${downloadFileName}`, fileName: downloadFileName });
+          }
+        }
+      } finally {
+        this.dubbingService.cleanup(dubTracks);
+      }
+
+      // Pacote HLS com o vídeo original e uma legenda WebVTT por idioma
+      let hls: HlsResult | undefined;
+      if (hlsOptions) {
+        hls = await this.videoService.generateHLSPackage(
+          videoFile.path,
+          outputs.map(output => ({ language: output.language, segments: output.videoSegments })),
+          hlsOptions
+        );
+
+        if (!hls.success) {
+          fs.unlinkSync(videoFile.path);
+          outputPaths.filter(outputPath => fs.existsSync(outputPath)).forEach(outputPath => fs.unlinkSync(outputPath));
+
+          res.status(500).json({
+            error: 'Falha ao gerar pacote HLS',
+            detail: hls.message
+          });
+          return;
+        }
+      }
+
+      console.log('✅ Vídeo processado com sucesso!');
+
+      // Arquivos de legenda por idioma para download
+      const languages = [];
+      for (const output of outputs) {
+        const subtitles: Record<string, { downloadUrl: string; fileName: string }> = {};
+        for (const format of subtitleFormats) {
+          const fileName = `${baseName}_${output.language}.${SUBTITLE_FORMAT_INFO[format].extension}`;
+          const filePath = path.join(__dirname, '../../temp', fileName);
+          await this.videoService.exportSubtitleFile(
+            output.videoSegments,
+            format,
+            filePath,
+            { language: output.language, style: subtitleStyle, bilingual, title: `${originalName} (${output.language})` }
+          );
+          outputPaths.push(filePath);
+          subtitles[format] = { downloadUrl: `/download/${fileName}`, fileName };
+        }
+
+        languages.push({
+          language: output.language,
+          translated: output.translated,
+          segments: output.segments,
+          subtitleSegments: output.videoSegments,
+          reflow: output.reflow,
+          qa: output.qa,
+          subtitles,
+          video: videos.get(output.language)
+        });
+      }
+
+      const primary = outputs[0];
+      const translatedSegments = primary.translated ? primary.segments : [];
+
+      // Retornar JSON estruturado com dados detalhados
+      res.json({
+        success: true,
+        message: 'Vídeo processado com sucesso!',
+        originalFile: videoFile.originalname,
+        targetLanguage: targetLanguage,
+        targetLanguages: targetLanguages,
+        subtitleMode: subtitleMode,
+        subtitleTracks: softOptions,
+        subtitleStyle: subtitleMode === 'burn' ? subtitleStyle : undefined,
+        subtitleLayout: subtitleLayout,
+        outputProfile: outputProfile,
+        dubbing: dubbing ? {
+          engine: dubbing.options.engine,
+          duckRatio: dubbing.options.duckRatio,
+          tracks: dubTracks.map(track => ({ language: track.language, voice: track.voice, stats: track.stats }))
+        } : undefined,
+        bilingual: bilingual ? { position: bilingual.position, originalStyle: bilingual.style } : undefined,
+        sourceLanguage: detectedLanguage,
+        requestedSourceLanguage: sourceLanguage,
+        languageDetection: transcriptionResult.languageDetection,
+        timestampGranularity: timestampGranularity,
+        translationMode: translationMode,
+        glossary: glossaryRules ? {
+          glossaries: glossaryRules.glossaryIds,
+          terms: glossaryRules.terms.length,
+          protectedTerms: glossaryRules.protectedTerms.length,
+          violations: outputs.reduce((sum, output) =>
+            sum + output.segments.filter(segment => segment.glossaryViolations).length, 0)
+        } : undefined,
+        transcription: {
+          text: transcriptionResult.text,
+          segments: transcriptionResult.segments,
+          language: transcriptionResult.language,
+          speechRegions: transcriptionResult.speechRegions,
+          speakers: transcriptionResult.speakers,
+          translatedSegments: translatedSegments.length > 0 ? translatedSegments : undefined
+        },
+        languages: languages,
+        subtitles: languages[0].subtitles,
+        video: videos.get(targetLanguage),
+        hls: hls ? {
+          jobId: hls.jobId,
+          masterUrl: `/hls/${hls.jobId}/master.m3u8`,
+          renditions: hls.renditions!.map(rendition => ({
+            name: rendition.name,
+            playlistUrl: `/hls/${hls!.jobId}/${rendition.name}.m3u8`,
+            videoBitrate: rendition.videoBitrate,
+            audioBitrate: rendition.audioBitrate
+          })),
+          subtitles: hls.subtitles!.map(subtitle => ({
+            language: subtitle.language,
+            name: subtitle.name,
+            playlistUrl: `/hls/${hls!.jobId}/${subtitle.playlist}`
+          })),
+          expiresAt: new Date(Date.now() + this.hlsTtlMinutes() * 60000).toISOString()
+        } : undefined,
+        stats: {
+          duration: transcriptionResult.duration || 0,
+          originalSegments: transcriptionResult.segments.length,
+          translatedSegments: translatedSegments.length,
+          segments: primary.segments.length,
+          languages: outputs.length
+        }
+      });
+
+      // Limpar arquivos temporários após um tempo
+      setTimeout(() => {
+        [videoFile.path, ...outputPaths]
+          .filter(filePath => fs.existsSync(filePath))
+          .forEach(filePath => fs.unlinkSync(filePath));
+      }, 60000); // 1 minuto para download
+
+      // O pacote HLS fica disponível por mais tempo, para o player
+      if (hls?.directory) {
+        const hlsDirectory = hls.directory;
+        setTimeout(() => fs.rmSync(hlsDirectory, { recursive: true, force: true }), this.hlsTtlMinutes() * 60000);
+      }
+
+    } catch (error: any) {
+      console.error('❌ Erro na transcrição:', error);
+
+      // Limpar arquivos temporários em caso de erro
+      if (req.file && fs.existsSync(req.file.path)) {
+        fs.unlinkSync(req.file.path);
+      }
+
+      res.status(500).json({
+        error: 'Erro interno do servidor',
+        detail: error.message
+      });
+    }
+  }
+
+  /**
+   * Modo de legenda pedido ou o padrão do ambiente (SUBTITLE_MODE, padrão soft).
+   * Retorna null se o valor for inválido.
+   */
+  private parseSubtitleMode(value: any): SubtitleMode | null {
+    const mode = value || process.env.SUBTITLE_MODE || 'soft';
+    return ['burn', 'soft'].includes(mode) ? mode : null;
+  }
+
+  /**
+   * Lê as opções das faixas de legenda (subtitleContainer, subtitleFormat, defaultSubtitleLanguage).
+   * Sem defaultSubtitleLanguage, a faixa do primeiro idioma fica como padrão; "none" desativa.
+   * Com perfil de saída, o container é o do perfil.
+   */
+  private parseSoftSubtitleOptions(
+    body: any,
+    languages: string[],
+    profile?: EncodingProfile
+  ): Required<Pick<SoftSubtitleOptions, 'container' | 'format' | 'defaultLanguage'>> | string {
+    const container = profile?.container || body.subtitleContainer || 'mp4';
+    if (profile && body.subtitleContainer && body.subtitleContainer !== container) {
+      return `O perfil "${profile.id}" grava em ${container}; remova "subtitleContainer" ou escolha outro perfil`;
+    }
+    // WebM só com perfil: copiar o vídeo exige que a origem já seja VP8/VP9/AV1
+    if (!profile && !['mp4', 'mkv'].includes(container)) {
+      return 'Campo "subtitleContainer" deve ser "mp4" ou "mkv" (para WebM, use outputProfile=webm-vp9)';
+    }
+
+    const formats: Record<string, string[]> = { mp4: ['mov_text'], mkv: ['srt', 'ass'], webm: ['webvtt'] };
+    const format = body.subtitleFormat || formats[container][0];
+    if (!formats[container].includes(format)) {
+      const messages: Record<string, string> = {
+        mp4: 'MP4 só aceita legendas mov_text; use subtitleContainer=mkv para faixas srt ou ass',
+        mkv: 'Campo "subtitleFormat" deve ser "srt" ou "ass"',
+        webm: 'WebM só aceita legendas webvtt'
+      };
+      return messages[container];
+    }
+
+    const defaultLanguage = this.parseDefaultSubtitleLanguage(body, languages);
+    if (defaultLanguage === null) {
+      return `Campo "defaultSubtitleLanguage" deve ser um dos idiomas de destino (${languages.join(', ')}) ou "none"`;
+    }
+
+    return { container, format, defaultLanguage };
+  }
+
+  /**
+   * Legenda marcada como padrão (defaultSubtitleLanguage): sem o campo, a do primeiro idioma; "none" vira ''.
+   * Retorna null se não for um dos idiomas de destino.
+   */
+  private parseDefaultSubtitleLanguage(body: any, languages: string[]): string | null {
+    const defaultLanguage = body.defaultSubtitleLanguage || languages[0];
+    if (defaultLanguage !== 'none' && !languages.includes(defaultLanguage)) {
+      return null;
+    }
+    return defaultLanguage === 'none' ? '' : defaultLanguage;
+  }
+
+  /**
+   * Perfil de codificação da saída (outputProfile). Ao gravar a legenda, o padrão é OUTPUT_PROFILE
+   * (web-h264); nas faixas de legenda, sem perfil, vídeo e áudio são copiados sem recodificar.
+   */
+  private parseOutputProfile(body: any, subtitleMode: SubtitleMode): EncodingProfile | undefined | string {
+    const id = body.outputProfile || (subtitleMode === 'burn' ? process.env.OUTPUT_PROFILE || 'web-h264' : undefined);
+    if (id === undefined) {
+      return undefined;
+    }
+
+    if (!isEncodingProfile(id)) {
+      return `Campo "outputProfile" deve ser um de: ${ENCODING_PROFILE_IDS.join(', ')}`;
+    }
+
+    const profile = ENCODING_PROFILES[id];
+    if (subtitleMode === 'soft' && !profile.video) {
+      return `O perfil "${id}" não tem vídeo para receber as faixas de legenda; use subtitleMode=burn`;
+    }
+
+    return profile;
+  }
+
+  /**
+   * Estilo das legendas gravadas: preset (stylePreset, padrão "default") mais os campos
+   * de `subtitleStyle` (JSON) e os campos avulsos com os mesmos nomes (fontName, fontSize...).
+   * Retorna uma mensagem de erro se o preset não existir ou algum campo for inválido.
+   */
+  private parseSubtitleStyle(body: any): SubtitleStyle | string {
+    const presetId = body.stylePreset || 'default';
+    if (!this.styleService.has(presetId)) {
+      return `Preset de legenda "${presetId}" não existe (disponíveis: ${this.styleService.list().map(preset => preset.id).join(', ')})`;
+    }
+
+    let fields: any = {};
+    if (body.subtitleStyle) {
+      try {
+        fields = typeof body.subtitleStyle === 'string' ? JSON.parse(body.subtitleStyle) : body.subtitleStyle;
+      } catch {
+        return 'Campo "subtitleStyle" deve ser um JSON, ex.: {"fontSize": 24, "alignment": "top-center"}';
+      }
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        return 'Campo "subtitleStyle" deve ser um objeto JSON';
+      }
+    }
+
+    STYLE_FIELDS
+      .filter(field => body[field] !== undefined && body[field] !== '')
+      .forEach(field => {
+        fields[field] = body[field];
+      });
+
+    const overrides = this.styleService.validateStyle(fields);
+    if (typeof overrides === 'string') {
+      return overrides;
+    }
+
+    return this.styleService.resolve(presetId, overrides);
+  }
+
+  /**
+   * Legendas bilíngues (bilingual, bilingualPosition, originalStyle): o estilo do original
+   * parte do estilo principal, menor e em itálico, com os campos de `originalStyle` por cima.
+   * Retorna undefined se o modo não foi pedido ou uma mensagem de erro se algum valor for inválido.
+   */
+  private parseBilingualOptions(body: any, mainStyle: SubtitleStyle): BilingualOptions | undefined | string {
+    if (body.bilingual !== true && body.bilingual !== 'true') {
+      return undefined;
+    }
+
+    const position = body.bilingualPosition || 'above';
+    if (!['above', 'below', 'top'].includes(position)) {
+      return 'Campo "bilingualPosition" deve ser "above", "below" ou "top"';
+    }
+
+    let fields: any = {};
+    if (body.originalStyle) {
+      try {
+        fields = typeof body.originalStyle === 'string' ? JSON.parse(body.originalStyle) : body.originalStyle;
+      } catch {
+        return 'Campo "originalStyle" deve ser um JSON, ex.: {"fontColor": "#ffe066", "italic": false}';
+      }
+    }
+
+    const overrides = this.styleService.validateStyle(fields);
+    if (typeof overrides === 'string') {
+      return overrides;
+    }
+
+    return {
+      position,
+      style: this.styleService.resolveOriginal(mainStyle, overrides)
+    };
+  }
+
+  /**
+   * Layout das legendas gravadas (adaptiveLayout, safeArea). Retorna uma mensagem de erro se algum valor for inválido.
+   */
+  private parseLayoutOptions(body: any): LayoutOptions | string {
+    const options: LayoutOptions = {};
+
+    if (body.adaptiveLayout !== undefined) {
+      options.enabled = body.adaptiveLayout !== 'false' && body.adaptiveLayout !== false;
+    }
+
+    if (body.safeArea) {
+      let fields: any;
+      try {
+        fields = typeof body.safeArea === 'string' ? JSON.parse(body.safeArea) : body.safeArea;
+      } catch {
+        return 'Campo "safeArea" deve ser um JSON, ex.: {"bottom": 20, "right": 15}';
+      }
+
+      const safeArea = this.layoutService.validateSafeArea(fields);
+      if (typeof safeArea === 'string') {
+        return safeArea;
+      }
+      options.safeArea = safeArea;
+    }
+
+    return options;
+  }
+
+  /**
+   * Pacote HLS (hls, hlsRenditions). Retorna undefined se não foi pedido ou uma mensagem de erro.
+   */
+  private parseHlsOptions(body: any, languages: string[]): HlsOptions | undefined | string {
+    if (body.hls !== true && body.hls !== 'true') {
+      return undefined;
+    }
+
+    const renditions = body.hlsRenditions ? this.parseIdList(body.hlsRenditions) : undefined;
+    if (renditions === null) {
+      return 'Campo "hlsRenditions" deve ser uma lista, ex.: 720p,480p';
+    }
+
+    const names = HLS_LADDER.map(rendition => rendition.name);
+    const unknown = (renditions || []).filter(name => !names.includes(name));
+    if (unknown.length > 0) {
+      return `Qualidades desconhecidas em "hlsRenditions": ${unknown.join(', ')} (disponíveis: ${names.join(', ')})`;
+    }
+
+    const defaultLanguage = this.parseDefaultSubtitleLanguage(body, languages);
+    if (defaultLanguage === null) {
+      return `Campo "defaultSubtitleLanguage" deve ser um dos idiomas de destino (${languages.join(', ')}) ou "none"`;
+    }
+
+    return { renditions: renditions && renditions.length > 0 ? renditions : undefined, defaultLanguage };
+  }
+
+  /**
+   * Dublagem (dubbing, dubbingEngine, dubbingVoices, dubbingLanguages, dubbingDuckRatio).
+   * Retorna undefined se não foi pedida ou uma mensagem de erro se algum valor for inválido.
+   */
+  private parseDubbingOptions(
+    body: any,
+    targetLanguages: string[],
+    sourceLanguage: string
+  ): { options: DubbingOptions; languages: string[] } | undefined | string {
+    if (body.dubbing !== true && body.dubbing !== 'true') {
+      return undefined;
+    }
+
+    if (body.dubbingEngine && !TTS_ENGINES.includes(body.dubbingEngine)) {
+      return `Campo "dubbingEngine" deve ser um de: ${TTS_ENGINES.join(', ')}`;
+    }
+
+    const languages = body.dubbingLanguages ? this.parseIdList(body.dubbingLanguages) : targetLanguages;
+    if (languages === null || languages.some(language => !targetLanguages.includes(language))) {
+      return `Campo "dubbingLanguages" deve listar idiomas de destino (${targetLanguages.join(', ')})`;
+    }
+    // Só os idiomas traduzidos são dublados: no idioma da fala não haveria o que dublar
+    if (languages.every(language => language === sourceLanguage)) {
+      return `Dublagem precisa de ao menos um idioma de destino diferente do idioma do áudio (${sourceLanguage})`;
+    }
+
+    // Uma voz para todos os idiomas ou um JSON por idioma, ex.: {"en": "en_US-amy-medium"}
+    let voices: Record<string, string> = {};
+    if (typeof body.dubbingVoices === 'object' && body.dubbingVoices !== null) {
+      voices = body.dubbingVoices;
+    } else if (typeof body.dubbingVoices === 'string' && body.dubbingVoices.trim().startsWith('{')) {
+      try {
+        voices = JSON.parse(body.dubbingVoices);
+      } catch {
+        return 'Campo "dubbingVoices" deve ser um nome de voz ou um JSON por idioma, ex.: {"en": "en_US-amy-medium"}';
+      }
+    } else if (body.dubbingVoices) {
+      languages.forEach(language => { voices[language] = String(body.dubbingVoices).trim(); });
+    }
+    if (Object.values(voices).some(voice => typeof voice !== 'string' || !/^[\w.+-]{1,100}$/.test(voice))) {
+      return 'Nomes de voz devem conter apenas letras, números, ".", "_", "+" e "-"';
+    }
+
+    let duckRatio: number | undefined;
+    if (body.dubbingDuckRatio !== undefined && body.dubbingDuckRatio !== '') {
+      duckRatio = parseFloat(body.dubbingDuckRatio);
+      if (isNaN(duckRatio) || duckRatio < 1 || duckRatio > 20) {
+        return 'Campo "dubbingDuckRatio" deve ser um número entre 1 (sem ducking) e 20';
+      }
+    }
+
+    const options = this.dubbingService.resolveOptions({ engine: body.dubbingEngine as TTSEngine | undefined, voices, duckRatio });
+    const missing = languages.filter(language => !this.dubbingService.resolveVoice(language, options));
+    if (missing.length > 0) {
+      return `Nenhuma voz do Piper para: ${missing.join(', ')} (use dubbingVoices ou PIPER_VOICE_<IDIOMA>)`;
+    }
+
+    return { options, languages };
+  }
+
+  /**
+   * Acrescenta as faixas dubladas ao vídeo gerado. Retorna o caminho final (o mesmo, sem
+   * dublagem) ou o corpo do erro.
+   */
+  private async addDubbedAudio(videoPath: string, tracks: DubTrack[], options: DubbingOptions): Promise<string | { error: string; detail: string }> {
+    if (tracks.length === 0) {
+      return videoPath;
+    }
+
+    const result = await this.dubbingService.muxDubbedAudio(videoPath, tracks, options);
+    if (!result.success) {
+      return { error: 'Falha ao adicionar a dublagem', detail: result.message };
+    }
+    return result.outputPath!;
+  }
+
+  private hlsTtlMinutes(): number {
+    return parseInt(process.env.HLS_TTL_MINUTES || '60', 10);
+  }
+
+  /**
+   * Lê os limites do reflow de legendas (reflow, maxCharsPerLine, maxLines, maxCps, minDuration).
+   * Retorna uma mensagem de erro se algum valor for inválido.
+   */
+  private parseReflowOptions(body: any): ReflowOptions | string {
+    const options: ReflowOptions = {};
+
+    if (body.reflow !== undefined) {
+      options.enabled = body.reflow !== 'false' && body.reflow !== false;
+    }
+
+    const limits: Array<[string, 'maxCharsPerLine' | 'maxLines' | 'maxCharsPerSecond' | 'minDuration', number, number, boolean]> = [
+      ['maxCharsPerLine', 'maxCharsPerLine', 10, 100, true],
+      ['maxLines', 'maxLines', 1, 4, true],
+      ['maxCps', 'maxCharsPerSecond', 5, 50, false],
+      ['minDuration', 'minDuration', 0.1, 10, false]
+    ];
+
+    for (const [field, key, min, max, integer] of limits) {
+      if (body[field] === undefined || body[field] === '') {
+        continue;
+      }
+
+      const value = integer ? parseInt(body[field], 10) : parseFloat(body[field]);
+      if (isNaN(value) || value < min || value > max) {
+        return `Campo "${field}" deve ser um número entre ${min} e ${max}`;
+      }
+      setField(options, key, value);
+    }
+
+    return options;
+  }
+
+  /**
+   * Segmentos de um idioma de destino: os originais quando o idioma é o mesmo da fala,
+   * senão traduzidos em lotes com contexto (um texto por segmento, mantendo o timing)
+   */
+  private async buildLanguageOutput(
+    segments: TranscriptionSegment[],
+    language: string,
+    sourceLanguage: string,
+    options: SegmentBatchOptions,
+    reflowOptions: ReflowOptions,
+    qaEnabled: boolean = false,
+    bilingual: boolean = false
+  ): Promise<LanguageOutput> {
+    let finalSegments: TranslatedTranscriptionSegment[] = segments;
+    let qa: QualitySummary | undefined;
+    const translated = language !== sourceLanguage && language !== 'auto';
+
+    if (translated) {
+      console.log(`🌍 Traduzindo para ${language}...`);
+
+      const translations = await this.translationService.translateSegmentTexts(
+        segments.map(segment => segment.text),
+        language,
+        sourceLanguage,
+        options
+      );
+
+      finalSegments = segments.map((segment, index) => ({
+        ...segment,
+        text: translations[index].text,
+        originalText: segment.text,
+        translationProvider: translations[index].provider,
+        translationModel: translations[index].model,
+        translationCached: translations[index].cached === true,
+        glossaryViolations: translations[index].glossaryViolations
+      }));
+
+      if (qaEnabled) {
+        const report = await this.translationService.assessTranslations(
+          segments.map(segment => segment.text),
+          translations.map(translation => translation.text),
+          language,
+          sourceLanguage,
+          options
+        );
+        finalSegments.forEach((segment, index) => segment.qa = report.segments[index]);
+        qa = report.summary;
+      }
+    }
+
+    // Converter para formato do VideoService e ajustar para leitura.
+    // Nas legendas bilíngues, cada tradução segue com o seu original (sem dividir nem unir).
+    const paired = bilingual && translated;
+    const reflowed = this.reflowService.reflow(finalSegments.map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text,
+      speaker: segment.speakerName || segment.speaker,
+      originalText: paired ? segment.originalText : undefined
+    })), paired ? { ...reflowOptions, keepSegments: true } : reflowOptions);
+
+    return {
+      language,
+      translated,
+      segments: finalSegments,
+      videoSegments: reflowed.segments,
+      reflow: reflowed.stats,
+      qa
+    };
+  }
+
+  /**
+   * Valida provedor, modelo e cadeia de fallback da tradução.
+   * O fallback pode vir como array, JSON ou lista separada por vírgulas.
+   */
+  private parseProviderSelection(provider?: any, model?: any, fallback?: any, useMemory?: any): ProviderSelection | string {
+    const selection: ProviderSelection = {};
+
+    if (useMemory !== undefined && useMemory !== '') {
+      if (![true, false, 'true', 'false'].includes(useMemory)) {
+        return 'Campo de memória de tradução deve ser "true" ou "false"';
+      }
+      selection.useMemory = useMemory === true || useMemory === 'true';
+    }
 
-      if (!videoFile) {
-        res.status(400).json({
-          error: 'Nenhum arquivo de vídeo enviado',
-          detail: 'Campo "video" é obrigatório'
-        });
-        return;
+    if (provider) {
+      if (!this.translationService.hasProvider(provider)) {
+        return `Provedor "${provider}" não existe. Use um de: ${this.translationService.getProviderIds().join(', ')}`;
       }
+      selection.provider = provider;
+    }
 
-      console.log(`✅ Arquivo recebido: ${videoFile.originalname} (${videoFile.mimetype})`);
+    if (model) {
+      selection.model = String(model);
+    }
 
-      const targetLanguage = req.body.targetLanguage || 'pt';
-      const sourceLanguage = req.body.language || 'auto';
-      
-      // Preparar contexto para o Whisper
-      const context: TranscriptionContext = {
-        prompt: req.body.prompt,
-        vocabulary: req.body.vocabulary ? JSON.parse(req.body.vocabulary) : undefined,
-        topic: req.body.topic,
-        speaker: req.body.speaker,
-        language: sourceLanguage
-      };
+    if (fallback !== undefined && fallback !== '') {
+      const ids = this.parseIdList(fallback);
+      if (ids === null) {
+        return 'Campo de fallback deve ser um array JSON válido ou uma lista separada por vírgulas';
+      }
 
-      console.log(`🌍 Idioma origem: ${sourceLanguage}, destino: ${targetLanguage}`);
+      const unknown = ids.filter(id => !this.translationService.hasProvider(id));
+      if (unknown.length > 0) {
+        return `Provedores de fallback desconhecidos: ${unknown.join(', ')}`;
+      }
+      selection.fallback = ids;
+    }
 
-      // Passo 1: Transcrever usando WhisperService melhorado
-      console.log('🎙️ Transcrevendo com Whisper...');
-      const transcriptionResult = await this.whisperService.transcribeFile(videoFile.path, context);
+    return selection;
+  }
 
-      // Passo 2: Traduzir segmentos se necessário
-      let finalSegments = transcriptionResult.segments;
-      let translatedSegments: any[] = [];
+  /**
+   * Mensagem de erro com os códigos que não são idiomas suportados, ou undefined se todos forem
+   */
+  private unsupportedLanguages(languages: string[]): string | undefined {
+    const unsupported = languages.filter(language => !this.translationService.isSupportedLanguage(language));
+    if (unsupported.length === 0) {
+      return undefined;
+    }
+    const supported = this.translationService.getSupportedLanguages().map(language => language.code);
+    return `Idiomas não suportados: ${unsupported.join(', ')} (aceitos: ${supported.join(', ')})`;
+  }
 
-      if (targetLanguage !== sourceLanguage && targetLanguage !== 'auto') {
-        console.log(`🌍 Traduzindo para ${targetLanguage}...`);
-        
-        // Traduzir cada segmento individualmente para manter timing
-        translatedSegments = await Promise.all(
-          transcriptionResult.segments.map(async (segment) => {
-            const translatedText = await this.translationService.translateText(
-              segment.text,
-              targetLanguage,
-              sourceLanguage
-            );
-            
-            return {
-              ...segment,
-              text: translatedText,
-              originalText: segment.text
-            };
-          })
-        );
-        
-        finalSegments = translatedSegments;
+  /**
+   * Lê uma lista enviada como array, JSON ou texto separado por vírgulas.
+   * Retorna null se o JSON for inválido.
+   */
+  private parseIdList(value: any): string[] | null {
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    if (String(value).trim().startsWith('[')) {
+      try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.map(String) : null;
+      } catch {
+        return null;
       }
+    }
+    return String(value).split(',').map(id => id.trim()).filter(id => id.length > 0);
+  }
 
-      // Converter para formato do VideoService
-      const videoSegments: TranslatedSegment[] = finalSegments.map(seg => ({
-        start: seg.start,
-        end: seg.end,
-        text: seg.text
-      }));
+  /**
+   * Monta as regras de glossário da requisição: glossários nomeados + termos protegidos.
+   * Retorna undefined quando não há regras e uma mensagem de erro se algo for inválido.
+   */
+  private parseGlossaryRules(glossaries: any, protectedTerms: string[]): GlossaryRules | undefined | string {
+    const ids = this.parseIdList(glossaries);
+    if (ids === null) {
+      return 'Campo "glossaries" deve ser um array JSON válido ou uma lista separada por vírgulas';
+    }
 
-      console.log(`📝 ${videoSegments.length} segmentos processados`);
-
-      // Passo 3: Gerar vídeo com legendas
-      const result = await this.videoService.generateVideoWithSubtitles(
-        videoFile.path,
-        videoSegments,
-        {
-          fontName: 'Arial',
-          fontSize: 20,
-          fontColor: '#ffffff',
-          backgroundColor: '#000000cc',
-          borderWidth: 1,
-          borderColor: '#000000',
-          marginVertical: 50
-        }
-      );
+    const unknown = ids.filter(id => !this.glossaryService.has(id));
+    if (unknown.length > 0) {
+      return `Glossários desconhecidos: ${unknown.join(', ')}`;
+    }
 
-      if (!result.success) {
-        // Limpar arquivo temporário
-        fs.unlinkSync(videoFile.path);
-        
-        res.status(500).json({
-          error: 'Falha ao gerar vídeo com legendas',
-          detail: result.message
-        });
-        return;
-      }
+    if (ids.length === 0 && protectedTerms.length === 0) {
+      return undefined;
+    }
 
-      console.log('✅ Vídeo processado com sucesso!');
+    return this.glossaryService.resolve(ids, protectedTerms);
+  }
 
-      // Mover o arquivo para a pasta de download com nome padronizado
-      const downloadFileName = `${videoFile.originalname.replace(/\.[^/.]+$/, '')}_with_subtitles.mp4`;
-      const downloadPath = path.join(__dirname, '../../temp', downloadFileName);
-      
-      // Copiar arquivo para o local de download
-      fs.copyFileSync(result.outputPath!, downloadPath);
-      
-      console.log(`📁 Arquivo copiado para: ${downloadPath}`);
+  /**
+   * Lê as opções de VAD do formulário (vad, vadThreshold, vadMinSilence).
+   * Retorna uma mensagem de erro se algum valor for inválido.
+   */
+  private parseVadOptions(body: any): VadOptions | string {
+    const options: VadOptions = {};
 
-      // Retornar JSON estruturado com dados detalhados
-      res.json({
-        success: true,
-        message: 'Vídeo processado com sucesso!',
-        originalFile: videoFile.originalname,
-        targetLanguage: targetLanguage,
-        sourceLanguage: sourceLanguage,
-        transcription: {
-          text: transcriptionResult.text,
-          segments: transcriptionResult.segments,
-          language: transcriptionResult.language,
-          translatedSegments: translatedSegments.length > 0 ? translatedSegments : undefined
-        },
-        video: {
-          downloadUrl: `/download/${downloadFileName}`,
-          fileName: downloadFileName
-        },
-        stats: {
-          duration: transcriptionResult.duration || 0,
-          originalSegments: transcriptionResult.segments.length,
-          translatedSegments: translatedSegments.length,
-          segments: finalSegments.length
-        }
-      });
+    if (body.vad !== undefined) {
+      options.enabled = body.vad !== 'false' && body.vad !== false;
+    }
 
-      // Limpar arquivos temporários após um tempo
-      setTimeout(() => {
-        if (fs.existsSync(videoFile.path)) {
-          fs.unlinkSync(videoFile.path);
-        }
-        if (fs.existsSync(result.outputPath!)) {
-          fs.unlinkSync(result.outputPath!);
-        }
-      }, 60000); // 1 minuto para download
+    if (body.vadThreshold !== undefined && body.vadThreshold !== '') {
+      const threshold = parseFloat(body.vadThreshold);
+      if (isNaN(threshold) || threshold > 0 || threshold < -90) {
+        return 'Campo "vadThreshold" deve ser um valor em dB entre -90 e 0';
+      }
+      options.threshold = threshold;
+    }
 
-    } catch (error: any) {
-      console.error('❌ Erro na transcrição:', error);
+    if (body.vadMinSilence !== undefined && body.vadMinSilence !== '') {
+      const minSilence = parseFloat(body.vadMinSilence);
+      if (isNaN(minSilence) || minSilence <= 0 || minSilence > 10) {
+        return 'Campo "vadMinSilence" deve ser um número de segundos entre 0 e 10';
+      }
+      options.minSilenceDuration = minSilence;
+    }
 
-      // Limpar arquivos temporários em caso de erro
-      if (req.file && fs.existsSync(req.file.path)) {
-        fs.unlinkSync(req.file.path);
+    return options;
+  }
+
+  /**
+   * Lê as opções de diarização (diarize, numSpeakers, speakerNames).
+   * Retorna uma mensagem de erro se algum valor for inválido.
+   */
+  private parseDiarizationOptions(body: any): DiarizationOptions | string {
+    const options: DiarizationOptions = {
+      enabled: body.diarize === 'true' || body.diarize === true
+    };
+
+    if (body.numSpeakers !== undefined && body.numSpeakers !== '') {
+      const numSpeakers = parseInt(body.numSpeakers, 10);
+      if (isNaN(numSpeakers) || numSpeakers < 1 || numSpeakers > 20) {
+        return 'Campo "numSpeakers" deve ser um inteiro entre 1 e 20';
       }
+      options.numSpeakers = numSpeakers;
+    }
 
-      res.status(500).json({
-        error: 'Erro interno do servidor',
-        detail: error.message
-      });
+    if (body.speakerNames) {
+      try {
+        const names = typeof body.speakerNames === 'string' ? JSON.parse(body.speakerNames) : body.speakerNames;
+        if (typeof names !== 'object' || Array.isArray(names) ||
+            Object.values(names).some(name => typeof name !== 'string')) {
+          return 'Campo "speakerNames" deve ser um objeto como {"S1": "Ana"}';
+        }
+        options.speakerNames = names;
+      } catch {
+        return 'Campo "speakerNames" deve estar em formato JSON válido';
+      }
     }
+
+    return options;
   }
 
   async generateVideoWithTranslatedSubtitles(req: Request, res: Response): Promise<void> {
@@ -189,6 +1207,7 @@ export class TranscriptionController {
       const videoFile = files?.video?.[0];
 
       if (!videoFile) {
+        this.removeUploads(files);
         res.status(400).json({
           error: 'Nenhum arquivo de vídeo enviado',
           detail: 'Campo "video" é obrigatório'
@@ -198,54 +1217,167 @@ export class TranscriptionController {
 
       console.log(`✅ Arquivo recebido: ${videoFile.originalname} (${videoFile.mimetype})`);
 
-      // Obter segmentos traduzidos do body
-      let translatedSegments: TranslatedSegment[] = [];
+      // Segmentos: arquivo de legenda (campo "subtitles") ou JSON em "translatedSegments"
+      const inputSegments = this.readSubtitleInput(files?.subtitles?.[0], req.body);
+      if (inputSegments instanceof SubtitleParseError) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Erro ao ler legendas',
+          detail: inputSegments.message,
+          line: inputSegments.line
+        });
+        return;
+      }
 
-      // Tentar obter dos campos do formulário
-      if (req.body.translatedSegments) {
-        try {
-          translatedSegments = typeof req.body.translatedSegments === 'string' 
-            ? JSON.parse(req.body.translatedSegments)
-            : req.body.translatedSegments;
-          
-          console.log(`📝 Segmentos recebidos via body: ${translatedSegments.length} itens`);
-        } catch (parseError) {
-          console.error('❌ Erro ao fazer parse dos segmentos:', parseError);
-          res.status(400).json({
-            error: 'Erro ao processar segmentos traduzidos',
-            detail: 'Os segmentos devem estar em formato JSON válido'
-          });
-          return;
-        }
+      if (inputSegments.length === 0) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Nenhuma legenda recebida',
+          detail: 'Envie um arquivo .srt, .vtt ou .ass no campo "subtitles" ou os segmentos em JSON no campo "translatedSegments"'
+        });
+        return;
       }
 
-      // Se não recebeu segmentos, usar mock para teste
-      if (!translatedSegments || translatedSegments.length === 0) {
-        console.warn('⚠️ Nenhum segmento recebido, usando dados mock para teste');
-        translatedSegments = [
-          { start: 0, end: 3, text: "Este é um teste de legenda traduzida via Express" },
-          { start: 3, end: 6, text: "Segunda parte do teste com Express e Multer" },
-          { start: 6, end: 9, text: "Terceira e última parte do teste mock" }
-        ];
+      console.log(`🎯 Processando ${inputSegments.length} segmentos`);
+
+      const reflowOptions = this.parseReflowOptions(req.body);
+      if (typeof reflowOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de reflow inválidas',
+          detail: reflowOptions
+        });
+        return;
       }
 
-      console.log(`🎯 Processando ${translatedSegments.length} segmentos traduzidos`);
+      // Tradução opcional das legendas antes de gerar o vídeo
+      const translate = req.body.translate === true || req.body.translate === 'true';
+      const translationSelection = this.parseProviderSelection(
+        req.body.translationProvider,
+        req.body.translationModel,
+        req.body.translationFallback,
+        req.body.translationMemory
+      );
+      if (typeof translationSelection === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Provedor de tradução inválido',
+          detail: translationSelection
+        });
+        return;
+      }
 
-      // Gerar vídeo com legendas
-      const result = await this.videoService.generateVideoWithSubtitles(
-        videoFile.path,
-        translatedSegments,
-        {
-          fontName: 'Arial',
-          fontSize: 18,
-          fontColor: '#ffffff',
-          backgroundColor: '#000000',
-          borderWidth: 1,
-          borderColor: '#000000',
-          marginVertical: 20
-        }
+      const glossaryRules = this.parseGlossaryRules(req.body.glossaries, []);
+      if (typeof glossaryRules === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Glossário inválido',
+          detail: glossaryRules
+        });
+        return;
+      }
+      translationSelection.glossary = glossaryRules;
+
+      const translationMode: SegmentTranslationMode = req.body.translationMode || 'batch';
+      if (!['batch', 'segment'].includes(translationMode)) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Modo de tradução inválido',
+          detail: 'Campo "translationMode" deve ser "batch" ou "segment"'
+        });
+        return;
+      }
+
+      const subtitleLanguage = req.body.targetLanguage || 'pt';
+      const unsupportedLanguages = this.unsupportedLanguages([subtitleLanguage]);
+      if (unsupportedLanguages) {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Idioma de destino não suportado',
+          detail: unsupportedLanguages
+        });
+        return;
+      }
+
+      const subtitleMode = this.parseSubtitleMode(req.body.subtitleMode);
+      const outputProfile = subtitleMode ? this.parseOutputProfile(req.body, subtitleMode) : undefined;
+      const softOptions = typeof outputProfile === 'string'
+        ? outputProfile
+        : subtitleMode === 'soft' ? this.parseSoftSubtitleOptions(req.body, [subtitleLanguage], outputProfile) : undefined;
+      if (!subtitleMode || typeof softOptions === 'string' || typeof outputProfile === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de legenda inválidas',
+          detail: typeof softOptions === 'string'
+            ? softOptions
+            : 'Campo "subtitleMode" deve ser "burn" (legenda gravada) ou "soft" (faixa de legenda)'
+        });
+        return;
+      }
+
+      const subtitleStyle = this.parseSubtitleStyle(req.body);
+      if (typeof subtitleStyle === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Estilo de legenda inválido',
+          detail: subtitleStyle
+        });
+        return;
+      }
+
+      const bilingual = this.parseBilingualOptions(req.body, subtitleStyle);
+      if (typeof bilingual === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Opções de legenda bilíngue inválidas',
+          detail: bilingual
+        });
+        return;
+      }
+
+      const layoutOptions = this.parseLayoutOptions(req.body);
+      if (typeof layoutOptions === 'string') {
+        fs.unlinkSync(videoFile.path);
+        res.status(400).json({
+          error: 'Layout de legenda inválido',
+          detail: layoutOptions
+        });
+        return;
+      }
+
+      // Sem tradução, o idioma de origem é o próprio idioma da legenda (só reflow)
+      let sourceLanguage = subtitleLanguage;
+      if (translate) {
+        sourceLanguage = req.body.sourceLanguage && req.body.sourceLanguage !== 'auto'
+          ? req.body.sourceLanguage
+          : this.translationService.detectLanguage(inputSegments.map(segment => segment.text).join(' '));
+        console.log(`🌍 Legendas em ${sourceLanguage}, destino ${subtitleLanguage}`);
+      }
+
+      const output = await this.buildLanguageOutput(
+        inputSegments,
+        subtitleLanguage,
+        sourceLanguage,
+        { ...translationSelection, mode: translationMode },
+        reflowOptions,
+        false,
+        bilingual !== undefined
       );
 
+      // Gerar vídeo com legendas
+      const result = softOptions
+        ? await this.videoService.generateVideoWithSoftSubtitles(
+          videoFile.path,
+          [{ language: subtitleLanguage, segments: output.videoSegments }],
+          { ...softOptions, profile: outputProfile, style: subtitleStyle, bilingual }
+        )
+        : await this.videoService.generateVideoWithSubtitles(
+          videoFile.path,
+          output.videoSegments,
+          subtitleStyle,
+          { bilingual, layout: layoutOptions, profile: outputProfile }
+        );
+
       if (!result.success) {
         // Limpar arquivo temporário
         fs.unlinkSync(videoFile.path);
@@ -260,10 +1392,14 @@ export class TranscriptionController {
       console.log('✅ Vídeo com legendas gerado com sucesso!');
 
       // Preparar response para download
-      const fileName = videoFile.originalname.replace(/\.[^/.]+$/, '_with_subtitles.mp4');
+      const extension = path.extname(result.outputPath!);
+      const fileName = videoFile.originalname.replace(/\.[^/.]+$/, `_with_subtitles${extension}`);
 
-      res.setHeader('Content-Type', 'video/mp4');
+      res.setHeader('Content-Type', result.profile?.mimeType || (extension === '.mkv' ? 'video/x-matroska' : 'video/mp4'));
       res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      if (result.profile) {
+        res.setHeader('X-Output-Profile', result.profile.id);
+      }
 
       // Enviar arquivo e limpar temporários
       res.sendFile(result.outputPath!, (err) => {
@@ -281,12 +1417,8 @@ export class TranscriptionController {
     } catch (error: any) {
       console.error('❌ Erro na geração de vídeo:', error);
 
-      // Limpar arquivo temporário em caso de erro
-      const files = req.files as { [fieldname: string]: Express.Multer.File[] };
-      const videoFile = files?.video?.[0];
-      if (videoFile && fs.existsSync(videoFile.path)) {
-        fs.unlinkSync(videoFile.path);
-      }
+      // Limpar arquivos temporários em caso de erro
+      this.removeUploads(req.files as { [fieldname: string]: Express.Multer.File[] });
 
       res.status(500).json({
         error: 'Erro interno do servidor',
@@ -295,6 +1427,55 @@ export class TranscriptionController {
     }
   }
 
+  private removeUploads(files?: { [fieldname: string]: Express.Multer.File[] }): void {
+    Object.values(files || {})
+      .flat()
+      .filter(file => fs.existsSync(file.path))
+      .forEach(file => fs.unlinkSync(file.path));
+  }
+
+  /**
+   * Lê os segmentos de um arquivo de legenda enviado (SRT, VTT, ASS/SSA...) ou do campo
+   * "translatedSegments" (JSON). O arquivo é removido depois de lido.
+   * Retorna o erro de leitura, com a linha, se o conteúdo for inválido.
+   */
+  private readSubtitleInput(file: Express.Multer.File | undefined, body: any): TranscriptionSegment[] | SubtitleParseError {
+    let cues: SubtitleCue[] = [];
+
+    try {
+      if (file) {
+        const content = fs.readFileSync(file.path, 'utf8');
+        const format = body.subtitleInputFormat || detectSubtitleFormat(content, file.originalname);
+        if (!isSubtitleFormat(format)) {
+          return new SubtitleParseError(`formato de legenda não reconhecido (use: ${SUBTITLE_FORMATS.join(', ')})`);
+        }
+
+        cues = parseSubtitles(content, format);
+        console.log(`📄 Legendas recebidas: ${file.originalname} (${format}, ${cues.length} itens)`);
+
+      } else if (body.translatedSegments) {
+        const json = typeof body.translatedSegments === 'string'
+          ? body.translatedSegments
+          : JSON.stringify(body.translatedSegments);
+        cues = parseSubtitles(json, 'json');
+        console.log(`📝 Segmentos recebidos via body: ${cues.length} itens`);
+      }
+
+    } catch (error: any) {
+      if (error instanceof SubtitleParseError) {
+        return error;
+      }
+      throw error;
+
+    } finally {
+      if (file && fs.existsSync(file.path)) {
+        fs.unlinkSync(file.path);
+      }
+    }
+
+    return cues.map((cue, index) => ({ id: index, ...cue }));
+  }
+
   /**
    * Endpoint para traduzir uma transcrição existente
    */
@@ -302,7 +1483,7 @@ export class TranscriptionController {
     try {
       console.log('🌐 Iniciando tradução de transcrição...');
       
-      const { text, sourceLanguage = 'auto', targetLanguage, model = 'google' } = req.body;
+      const { text, sourceLanguage = 'auto', targetLanguage } = req.body;
 
       if (!text || !targetLanguage) {
         res.status(400).json({ 
@@ -312,15 +1493,58 @@ export class TranscriptionController {
         return;
       }
 
-      console.log(`🔤 Traduzindo texto de ${sourceLanguage} para ${targetLanguage}`);
+      const unsupportedLanguages = this.unsupportedLanguages([targetLanguage]);
+      if (unsupportedLanguages) {
+        res.status(400).json({
+          error: 'Idioma de destino não suportado',
+          detail: unsupportedLanguages
+        });
+        return;
+      }
+
+      const selection = this.parseProviderSelection(req.body.provider, req.body.model, req.body.fallback, req.body.useMemory);
+      if (typeof selection === 'string') {
+        res.status(400).json({
+          error: 'Provedor de tradução inválido',
+          detail: selection
+        });
+        return;
+      }
+
+      const protectedTerms = this.parseIdList(req.body.protectedTerms);
+      const glossaryRules = protectedTerms === null
+        ? 'Campo "protectedTerms" deve ser um array JSON ou uma lista separada por vírgulas'
+        : this.parseGlossaryRules(req.body.glossaries, protectedTerms);
+      if (typeof glossaryRules === 'string') {
+        res.status(400).json({
+          error: 'Glossário inválido',
+          detail: glossaryRules
+        });
+        return;
+      }
+      selection.glossary = glossaryRules;
+
+      // Com "auto", identificar o idioma do texto antes de traduzir: tradução, memória e QA usam o detectado
+      const languageDetection = sourceLanguage === 'auto'
+        ? this.translationService.detectLanguageCandidates(text)
+        : null;
+      const resolvedSourceLanguage = this.translationService.resolveSourceLanguage([text], sourceLanguage);
+
+      console.log(`🔤 Traduzindo texto de ${sourceLanguage}${languageDetection ? ` (detectado: ${languageDetection.language})` : ''} para ${targetLanguage}`);
       console.log(`📝 Texto original: ${text.substring(0, 100)}${text.length > 100 ? '...' : ''}`);
 
       // Traduzir texto usando o serviço de tradução
-      const translatedText = await this.translationService.translateText(
+      const translation = await this.translationService.translate(
         text,
         targetLanguage,
-        sourceLanguage
+        resolvedSourceLanguage,
+        selection
       );
+      const translatedText = translation.text;
+
+      const qa = req.body.qa === true || req.body.qa === 'true'
+        ? (await this.translationService.assessTranslations([text], [translatedText], targetLanguage, resolvedSourceLanguage, selection)).segments[0]
+        : undefined;
 
       res.json({
         success: true,
@@ -328,9 +1552,15 @@ export class TranscriptionController {
         translation: {
           originalText: text,
           translatedText: translatedText,
-          sourceLanguage: sourceLanguage,
+          sourceLanguage: resolvedSourceLanguage,
+          requestedSourceLanguage: sourceLanguage,
           targetLanguage: targetLanguage,
-          model: model
+          languageDetection: languageDetection || undefined,
+          provider: translation.provider,
+          model: translation.model,
+          cached: translation.cached === true,
+          glossaryViolations: translation.glossaryViolations,
+          qa
         },
         stats: {
           originalLength: text.length,
@@ -354,13 +1584,22 @@ export class TranscriptionController {
     try {
       console.log('📋 Obtendo modelos de tradução disponíveis...');
       
-      const models = await this.translationService.getAvailableModels();
+      const providers = await this.translationService.getProviderCatalog();
+      const ollama = providers.find(provider => provider.id === 'ollama');
+
+      // Lista plana mantida por compatibilidade: modelos do Ollama + um item por provedor sem modelos
+      const models = providers.flatMap(provider => provider.models.map(model => ({
+        ...model,
+        provider: provider.id
+      })));
       
       res.json({
         message: 'Modelos de tradução disponíveis',
+        providers: providers,
         models: models,
-        defaultModel: 'llama3.1:8b',
-        ollamaAvailable: await this.translationService.isOllamaAvailable()
+        defaultChain: this.translationService.getDefaultChain(),
+        defaultModel: ollama?.defaultModel,
+        ollamaAvailable: ollama?.available ?? false
       });
 
     } catch (error: any) {
@@ -372,6 +1611,46 @@ export class TranscriptionController {
     }
   }
 
+  /**
+   * Endpoint para identificar o idioma de um texto, com a confiança de cada candidato
+   */
+  async detectLanguage(req: Request, res: Response): Promise<void> {
+    try {
+      const { text } = req.body;
+
+      if (!text || typeof text !== 'string') {
+        res.status(400).json({
+          error: 'Texto é obrigatório',
+          detail: 'Campo "text" deve ser fornecido'
+        });
+        return;
+      }
+
+      const detection = this.translationService.detectLanguageCandidates(text);
+      if (!detection) {
+        res.status(400).json({
+          error: 'Não foi possível detectar o idioma',
+          detail: 'O texto não contém letras para analisar'
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        language: detection.language,
+        probability: detection.probability,
+        probabilities: detection.probabilities
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro na detecção de idioma:', error);
+      res.status(500).json({
+        error: 'Erro interno do servidor',
+        message: error.message
+      });
+    }
+  }
+
   /**
    * Endpoint para obter idiomas de tradução suportados
    */
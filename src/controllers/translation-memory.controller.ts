@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import { TranslationMemoryQuery, TranslationMemoryService } from '../services/translation-memory.service';
+
+export class TranslationMemoryController {
+  private memory: TranslationMemoryService;
+
+  constructor() {
+    this.memory = TranslationMemoryService.getInstance();
+  }
+
+  /**
+   * Estatísticas da memória e entradas filtradas/paginadas
+   */
+  async inspect(req: Request, res: Response): Promise<void> {
+    try {
+      const query = this.parseQuery(req.query);
+      const { total, entries } = this.memory.list(query);
+
+      res.json({
+        success: true,
+        stats: this.memory.getStats(),
+        total,
+        offset: query.offset || 0,
+        entries
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao consultar memória de tradução:', error);
+      res.status(500).json({
+        error: 'Erro ao consultar memória de tradução',
+        detail: error.message
+      });
+    }
+  }
+
+  /**
+   * Baixa a memória completa em JSONL
+   */
+  async exportMemory(req: Request, res: Response): Promise<void> {
+    try {
+      const content = this.memory.export();
+
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="translation-memory.jsonl"');
+      res.send(content ? content + '\n' : '');
+
+    } catch (error: any) {
+      console.error('❌ Erro ao exportar memória de tradução:', error);
+      res.status(500).json({
+        error: 'Erro ao exportar memória de tradução',
+        detail: error.message
+      });
+    }
+  }
+
+  /**
+   * Importa entradas enviadas como array JSON ("entries") ou texto JSONL ("jsonl")
+   */
+  async importMemory(req: Request, res: Response): Promise<void> {
+    try {
+      let items: any[];
+
+      if (Array.isArray(req.body)) {
+        items = req.body;
+      } else if (Array.isArray(req.body?.entries)) {
+        items = req.body.entries;
+      } else if (typeof req.body?.jsonl === 'string') {
+        const lines = req.body.jsonl.split('\n').filter((line: string) => line.trim() !== '');
+        try {
+          items = lines.map((line: string) => JSON.parse(line));
+        } catch {
+          res.status(400).json({
+            error: 'JSONL inválido',
+            detail: 'Cada linha de "jsonl" deve ser um objeto JSON'
+          });
+          return;
+        }
+      } else {
+        res.status(400).json({
+          error: 'Nenhuma entrada enviada',
+          detail: 'Envie um array JSON, o campo "entries" ou o campo "jsonl"'
+        });
+        return;
+      }
+
+      const result = this.memory.import(items);
+
+      res.json({
+        success: true,
+        message: `${result.imported} entradas importadas`,
+        ...result,
+        stats: this.memory.getStats()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao importar memória de tradução:', error);
+      res.status(500).json({
+        error: 'Erro ao importar memória de tradução',
+        detail: error.message
+      });
+    }
+  }
+
+  /**
+   * Limpa a memória inteira ou só as entradas do filtro (search, provider, targetLanguage)
+   */
+  async clearMemory(req: Request, res: Response): Promise<void> {
+    try {
+      const removed = this.memory.clear(this.parseQuery(req.query));
+
+      res.json({
+        success: true,
+        message: `${removed} entradas removidas`,
+        removed,
+        stats: this.memory.getStats()
+      });
+
+    } catch (error: any) {
+      console.error('❌ Erro ao limpar memória de tradução:', error);
+      res.status(500).json({
+        error: 'Erro ao limpar memória de tradução',
+        detail: error.message
+      });
+    }
+  }
+
+  private parseQuery(query: any): TranslationMemoryQuery {
+    const limit = parseInt(query.limit, 10);
+    const offset = parseInt(query.offset, 10);
+
+    return {
+      search: typeof query.search === 'string' && query.search !== '' ? query.search : undefined,
+      provider: typeof query.provider === 'string' && query.provider !== '' ? query.provider : undefined,
+      targetLanguage: typeof query.targetLanguage === 'string' && query.targetLanguage !== '' ? query.targetLanguage : undefined,
+      limit: isNaN(limit) ? undefined : limit,
+      offset: isNaN(offset) ? undefined : offset
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { OpenAIController } from '../controllers/openai.controller';
+
+const router = Router();
+const openAIController = new OpenAIController();
+
+// Mesmos formatos aceitos pela API de áudio da OpenAI
+const upload = multer({
+  dest: 'temp/',
+  limits: {
+    fileSize: 100 * 1024 * 1024, // 100MB
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/x-m4a', 'audio/m4a',
+                         'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/webm', 'audio/ogg',
+                         'audio/flac', 'video/mp4', 'video/mpeg', 'video/webm', 'video/quicktime'];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Tipo de arquivo não suportado'));
+    }
+  }
+});
+
+// Transcrição no idioma original (compatível com POST /v1/audio/transcriptions)
+router.post('/audio/transcriptions',
+  upload.single('file'),
+  openAIController.createTranscription.bind(openAIController)
+);
+
+// Transcrição traduzida para inglês (compatível com POST /v1/audio/translations)
+router.post('/audio/translations',
+  upload.single('file'),
+  openAIController.createTranslation.bind(openAIController)
+);
+
+export default router;
@@ -1,9 +1,19 @@
 import { Router } from 'express';
 import multer from 'multer';
+import { GlossaryController } from '../controllers/glossary.controller';
+import { SubtitleController } from '../controllers/subtitle.controller';
+import { SubtitleStyleController } from '../controllers/subtitle-style.controller';
 import { TranscriptionController } from '../controllers/transcription.controller';
+import { TranslationMemoryController } from '../controllers/translation-memory.controller';
 
 const router = Router();
 const transcriptionController = new TranscriptionController();
+const translationMemoryController = new TranslationMemoryController();
+const glossaryController = new GlossaryController();
+const subtitleStyleController = new SubtitleStyleController();
+const subtitleController = new SubtitleController();
+
+const SUBTITLE_FILE_PATTERN = /\.(srt|vtt|ass|ssa|ttml|dfxp|xml|sbv|json)$/i;
 
 // Configuração do multer para upload de arquivos
 const upload = multer({
@@ -12,6 +22,16 @@ const upload = multer({
     fileSize: 100 * 1024 * 1024, // 100MB
   },
   fileFilter: (req, file, cb) => {
+    // Arquivos de legenda são aceitos pela extensão
+    if (file.fieldname === 'subtitles') {
+      if (SUBTITLE_FILE_PATTERN.test(file.originalname)) {
+        cb(null, true);
+      } else {
+        cb(new Error('Formato de legenda não suportado'));
+      }
+      return;
+    }
+
     const allowedTypes = ['video/mp4', 'video/avi', 'video/quicktime', 'video/x-msvideo', 
                          'audio/mpeg', 'audio/wav', 'audio/flac'];
     if (allowedTypes.includes(file.mimetype)) {
@@ -22,15 +42,31 @@ const upload = multer({
   }
 });
 
-// Middleware para campos multipart (arquivo + translatedSegments)
+// Middleware para campos multipart (vídeo + arquivo de legenda ou translatedSegments)
 const uploadFields = upload.fields([
   { name: 'video', maxCount: 1 },
+  { name: 'subtitles', maxCount: 1 },
   { name: 'translatedSegments', maxCount: 1 }
 ]);
 
 // Middleware para upload simples de vídeo
 const uploadSingle = upload.single('video');
 
+// Upload de arquivos de legenda (conversão de formatos)
+const subtitleUpload = multer({
+  dest: 'temp/',
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (SUBTITLE_FILE_PATTERN.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Formato de legenda não suportado'));
+    }
+  }
+});
+
 // Rota para transcrição e geração de vídeo com legendas (endpoint principal do playground)
 router.post('/transcribe', 
   uploadSingle,
@@ -53,11 +89,81 @@ router.get('/translation/models',
   transcriptionController.getTranslationModels.bind(transcriptionController)
 );
 
+// Rota para detectar o idioma de um texto
+router.post('/translation/detect',
+  transcriptionController.detectLanguage.bind(transcriptionController)
+);
+
 // Rota para obter idiomas de tradução suportados
 router.get('/translation/languages', 
   transcriptionController.getTranslationLanguages.bind(transcriptionController)
 );
 
+// Rotas da memória de tradução
+router.get('/translation/memory',
+  translationMemoryController.inspect.bind(translationMemoryController)
+);
+
+router.get('/translation/memory/export',
+  translationMemoryController.exportMemory.bind(translationMemoryController)
+);
+
+router.post('/translation/memory/import',
+  translationMemoryController.importMemory.bind(translationMemoryController)
+);
+
+router.delete('/translation/memory',
+  translationMemoryController.clearMemory.bind(translationMemoryController)
+);
+
+// Rotas de glossários (termos obrigatórios e protegidos)
+router.get('/translation/glossaries',
+  glossaryController.listGlossaries.bind(glossaryController)
+);
+
+router.post('/translation/glossaries',
+  glossaryController.createGlossary.bind(glossaryController)
+);
+
+router.get('/translation/glossaries/:id',
+  glossaryController.getGlossary.bind(glossaryController)
+);
+
+router.put('/translation/glossaries/:id',
+  glossaryController.updateGlossary.bind(glossaryController)
+);
+
+router.delete('/translation/glossaries/:id',
+  glossaryController.deleteGlossary.bind(glossaryController)
+);
+
+// Rota para converter legendas entre formatos (SRT, VTT, ASS/SSA, TTML/DFXP, SBV, JSON)
+router.post('/subtitles/convert',
+  subtitleUpload.single('file'),
+  subtitleController.convert.bind(subtitleController)
+);
+
+// Rotas de presets de estilo de legenda
+router.get('/subtitle-styles',
+  subtitleStyleController.listPresets.bind(subtitleStyleController)
+);
+
+router.post('/subtitle-styles',
+  subtitleStyleController.createPreset.bind(subtitleStyleController)
+);
+
+router.get('/subtitle-styles/:id',
+  subtitleStyleController.getPreset.bind(subtitleStyleController)
+);
+
+router.put('/subtitle-styles/:id',
+  subtitleStyleController.updatePreset.bind(subtitleStyleController)
+);
+
+router.delete('/subtitle-styles/:id',
+  subtitleStyleController.deletePreset.bind(subtitleStyleController)
+);
+
 // Rota de teste
 router.get('/test', (req, res) => {
   res.json({ 
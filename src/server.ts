@@ -4,6 +4,7 @@ import express from 'express';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import path from 'path';
+import openAIRoutes from './routes/openai.routes';
 import transcriptionRoutes from './routes/transcription.routes';
 
 // Carregar variáveis de ambiente
@@ -25,6 +26,9 @@ app.use(express.static(path.join(__dirname, '../public')));
 // Servir arquivos de download/temp
 app.use('/download', express.static(path.join(__dirname, '../temp')));
 
+// Pacotes HLS (master playlist, rendições e legendas WebVTT por job)
+app.use('/hls', express.static(path.join(__dirname, '../temp/hls')));
+
 // Middlewares para parsing
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -32,6 +36,9 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 // Rotas da API
 app.use('/api', transcriptionRoutes);
 
+// Rotas compatíveis com a API de áudio da OpenAI
+app.use('/v1', openAIRoutes);
+
 // Rota de health check
 app.get('/api/health', (req, res) => {
   res.json({ 
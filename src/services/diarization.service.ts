@@ -0,0 +1,472 @@
+import { exec } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { TranscriptionSegment } from './whisper.service';
+
+const execAsync = promisify(exec);
+
+export interface DiarizationOptions {
+  enabled?: boolean;
+  numSpeakers?: number;                  // Número exato de falantes, se conhecido
+  maxSpeakers?: number;
+  threshold?: number;                    // Distância de cosseno máxima para unir dois grupos
+  speakerNames?: Record<string, string>; // Ex.: { "S1": "Ana", "S2": "Bruno" }
+}
+
+export interface SpeakerSummary {
+  label: string;
+  name?: string;
+  segments: number;
+  duration: number;
+}
+
+export interface DiarizationResult {
+  segments: TranscriptionSegment[];
+  speakers: SpeakerSummary[];
+}
+
+interface WavInfo {
+  sampleRate: number;
+  dataOffset: number;
+  dataLength: number;
+}
+
+// Parâmetros MFCC (janela de 25ms, passo de 10ms a 16 kHz)
+const FRAME_SECONDS = 0.025;
+const HOP_SECONDS = 0.010;
+const FFT_SIZE = 512;
+const MEL_FILTERS = 26;
+const MFCC_COEFFICIENTS = 13;
+const MAX_SECONDS_PER_SEGMENT = 30;
+
+/**
+ * Diarização local: embeddings MFCC (média + desvio) por segmento
+ * e agrupamento aglomerativo por distância de cosseno
+ */
+export class DiarizationService {
+  private readonly defaultThreshold: number;
+  private readonly defaultMaxSpeakers: number;
+
+  constructor() {
+    this.defaultThreshold = parseFloat(process.env.DIARIZATION_THRESHOLD || '0.6');
+    this.defaultMaxSpeakers = parseInt(process.env.DIARIZATION_MAX_SPEAKERS || '8', 10);
+  }
+
+  async diarize(
+    audioPath: string,
+    segments: TranscriptionSegment[],
+    options: DiarizationOptions = {}
+  ): Promise<DiarizationResult> {
+    if (segments.length === 0) {
+      return { segments, speakers: [] };
+    }
+
+    console.log(`👥 Iniciando diarização de ${segments.length} segmentos...`);
+
+    const wavPath = await this.ensurePcmWav(audioPath);
+
+    try {
+      const wav = this.readWavInfo(wavPath);
+      const embeddings = this.extractEmbeddings(wavPath, wav, segments);
+      const clusters = this.cluster(embeddings, options);
+      const labels = this.labelByFirstAppearance(clusters);
+
+      const labeled = segments.map((segment, i) => {
+        const speaker = labels[i];
+        const name = options.speakerNames?.[speaker];
+        return name ? { ...segment, speaker, speakerName: name } : { ...segment, speaker };
+      });
+
+      const speakers = this.summarize(labeled, options.speakerNames);
+      console.log(`✅ Diarização concluída: ${speakers.length} falantes`);
+
+      return { segments: labeled, speakers };
+
+    } finally {
+      if (wavPath !== audioPath && fs.existsSync(wavPath)) {
+        fs.unlinkSync(wavPath);
+      }
+    }
+  }
+
+  /**
+   * Converte para WAV PCM 16-bit mono quando o arquivo não está nesse formato
+   */
+  private async ensurePcmWav(audioPath: string): Promise<string> {
+    try {
+      this.readWavInfo(audioPath);
+      return audioPath;
+    } catch {
+      const baseName = path.basename(audioPath, path.extname(audioPath) || '');
+      const wavPath = path.join(path.dirname(audioPath), `${baseName}_diarization.wav`);
+      await execAsync(`ffmpeg -i "${audioPath}" -vn -acodec pcm_s16le -ac 1 -ar 16000 -f wav -y "${wavPath}"`);
+      return wavPath;
+    }
+  }
+
+  /**
+   * Lê o cabeçalho RIFF e valida PCM 16-bit mono
+   */
+  private readWavInfo(wavPath: string): WavInfo {
+    const fd = fs.openSync(wavPath, 'r');
+
+    try {
+      const header = Buffer.alloc(12);
+      fs.readSync(fd, header, 0, 12, 0);
+      if (header.toString('ascii', 0, 4) !== 'RIFF' || header.toString('ascii', 8, 12) !== 'WAVE') {
+        throw new Error('Arquivo não é WAV');
+      }
+
+      let offset = 12;
+      let sampleRate = 0;
+      const chunkHeader = Buffer.alloc(8);
+
+      while (fs.readSync(fd, chunkHeader, 0, 8, offset) === 8) {
+        const chunkId = chunkHeader.toString('ascii', 0, 4);
+        const chunkSize = chunkHeader.readUInt32LE(4);
+
+        if (chunkId === 'fmt ') {
+          const fmt = Buffer.alloc(16);
+          fs.readSync(fd, fmt, 0, 16, offset + 8);
+          const audioFormat = fmt.readUInt16LE(0);
+          const channels = fmt.readUInt16LE(2);
+          const bitsPerSample = fmt.readUInt16LE(14);
+          if (audioFormat !== 1 || channels !== 1 || bitsPerSample !== 16) {
+            throw new Error('WAV precisa ser PCM 16-bit mono');
+          }
+          sampleRate = fmt.readUInt32LE(4);
+        } else if (chunkId === 'data') {
+          if (!sampleRate) {
+            throw new Error('Chunk fmt ausente');
+          }
+          return { sampleRate, dataOffset: offset + 8, dataLength: chunkSize };
+        }
+
+        offset += 8 + chunkSize + (chunkSize % 2);
+      }
+
+      throw new Error('Chunk data ausente');
+
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  /**
+   * Calcula um vetor por segmento: média e desvio padrão dos MFCCs (sem c0)
+   */
+  private extractEmbeddings(wavPath: string, wav: WavInfo, segments: TranscriptionSegment[]): number[][] {
+    const frameLength = Math.round(FRAME_SECONDS * wav.sampleRate);
+    const hopLength = Math.round(HOP_SECONDS * wav.sampleRate);
+    const window = this.hammingWindow(frameLength);
+    const melBank = this.melFilterBank(wav.sampleRate);
+    const fd = fs.openSync(wavPath, 'r');
+
+    try {
+      const raw = segments.map(segment => {
+        const startSample = Math.floor(segment.start * wav.sampleRate);
+        const seconds = Math.min(segment.end - segment.start, MAX_SECONDS_PER_SEGMENT);
+        const sampleCount = Math.max(frameLength, Math.floor(seconds * wav.sampleRate));
+        const samples = this.readSamples(fd, wav, startSample, sampleCount);
+
+        const frames: number[][] = [];
+        for (let pos = 0; pos + frameLength <= samples.length; pos += hopLength) {
+          frames.push(this.mfcc(samples, pos, frameLength, window, melBank));
+        }
+
+        return this.meanAndStd(frames);
+      });
+
+      return this.normalizeColumns(raw);
+
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private readSamples(fd: number, wav: WavInfo, startSample: number, count: number): Float64Array {
+    const byteOffset = startSample * 2;
+    const byteLength = Math.max(0, Math.min(count * 2, wav.dataLength - byteOffset));
+    const buffer = Buffer.alloc(byteLength);
+    fs.readSync(fd, buffer, 0, byteLength, wav.dataOffset + byteOffset);
+
+    const samples = new Float64Array(Math.floor(byteLength / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = buffer.readInt16LE(i * 2) / 32768;
+    }
+    return samples;
+  }
+
+  private mfcc(
+    samples: Float64Array,
+    offset: number,
+    frameLength: number,
+    window: Float64Array,
+    melBank: Float64Array[]
+  ): number[] {
+    const real = new Float64Array(FFT_SIZE);
+    const imag = new Float64Array(FFT_SIZE);
+
+    // Pré-ênfase + janela de Hamming
+    for (let i = 0; i < frameLength && i < FFT_SIZE; i++) {
+      const previous = offset + i > 0 ? samples[offset + i - 1] : 0;
+      real[i] = (samples[offset + i] - 0.97 * previous) * window[i];
+    }
+
+    this.fft(real, imag);
+
+    const bins = FFT_SIZE / 2 + 1;
+    const power = new Float64Array(bins);
+    for (let i = 0; i < bins; i++) {
+      power[i] = (real[i] * real[i] + imag[i] * imag[i]) / FFT_SIZE;
+    }
+
+    const logMel = melBank.map(filter => {
+      let energy = 0;
+      for (let i = 0; i < bins; i++) {
+        energy += filter[i] * power[i];
+      }
+      return Math.log(energy + 1e-10);
+    });
+
+    // DCT-II, descartando c0 (energia) para não separar falantes pelo volume
+    const coefficients: number[] = [];
+    for (let k = 1; k < MFCC_COEFFICIENTS; k++) {
+      let sum = 0;
+      for (let n = 0; n < MEL_FILTERS; n++) {
+        sum += logMel[n] * Math.cos((Math.PI * k * (n + 0.5)) / MEL_FILTERS);
+      }
+      coefficients.push(sum);
+    }
+    return coefficients;
+  }
+
+  /**
+   * FFT radix-2 in-place
+   */
+  private fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const cos = Math.cos(angle * k);
+          const sin = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + size / 2;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+
+  private hammingWindow(length: number): Float64Array {
+    const window = new Float64Array(length);
+    for (let i = 0; i < length; i++) {
+      window[i] = 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (length - 1));
+    }
+    return window;
+  }
+
+  private melFilterBank(sampleRate: number): Float64Array[] {
+    const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+    const toHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+    const bins = FFT_SIZE / 2 + 1;
+
+    const maxMel = toMel(sampleRate / 2);
+    const points = Array.from({ length: MEL_FILTERS + 2 }, (_, i) =>
+      Math.floor(((FFT_SIZE + 1) * toHz((maxMel * i) / (MEL_FILTERS + 1))) / sampleRate)
+    );
+
+    return Array.from({ length: MEL_FILTERS }, (_, m) => {
+      const filter = new Float64Array(bins);
+      const [left, center, right] = [points[m], points[m + 1], points[m + 2]];
+      for (let k = left; k < center; k++) {
+        filter[k] = (k - left) / Math.max(1, center - left);
+      }
+      for (let k = center; k < right; k++) {
+        filter[k] = (right - k) / Math.max(1, right - center);
+      }
+      return filter;
+    });
+  }
+
+  private meanAndStd(frames: number[][]): number[] {
+    const dims = MFCC_COEFFICIENTS - 1;
+    if (frames.length === 0) {
+      return new Array(dims * 2).fill(0);
+    }
+
+    const mean = new Array(dims).fill(0);
+    const variance = new Array(dims).fill(0);
+
+    for (const frame of frames) {
+      frame.forEach((value, d) => { mean[d] += value / frames.length; });
+    }
+    for (const frame of frames) {
+      frame.forEach((value, d) => { variance[d] += Math.pow(value - mean[d], 2) / frames.length; });
+    }
+
+    return [...mean, ...variance.map(v => Math.sqrt(v))];
+  }
+
+  /**
+   * Normaliza cada dimensão entre os segmentos (z-score) para a distância de cosseno
+   */
+  private normalizeColumns(vectors: number[][]): number[][] {
+    const dims = vectors[0].length;
+    const mean = new Array(dims).fill(0);
+    const std = new Array(dims).fill(0);
+
+    vectors.forEach(v => v.forEach((value, d) => { mean[d] += value / vectors.length; }));
+    vectors.forEach(v => v.forEach((value, d) => { std[d] += Math.pow(value - mean[d], 2) / vectors.length; }));
+
+    return vectors.map(v => v.map((value, d) => (value - mean[d]) / (Math.sqrt(std[d]) || 1)));
+  }
+
+  private cosineDistance(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) {
+      return 1;
+    }
+    return 1 - dot / Math.sqrt(normA * normB);
+  }
+
+  /**
+   * Agrupamento aglomerativo com ligação média (Lance-Williams).
+   * Retorna o índice do grupo de cada segmento.
+   */
+  private cluster(embeddings: number[][], options: DiarizationOptions): number[] {
+    const n = embeddings.length;
+    const targetClusters = options.numSpeakers;
+    const maxSpeakers = options.maxSpeakers || this.defaultMaxSpeakers;
+    const threshold = options.threshold ?? this.defaultThreshold;
+
+    const distance: Float64Array[] = Array.from({ length: n }, () => new Float64Array(n));
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        distance[i][j] = distance[j][i] = this.cosineDistance(embeddings[i], embeddings[j]);
+      }
+    }
+
+    const active = new Array(n).fill(true);
+    const sizes = new Array(n).fill(1);
+    const assignment = Array.from({ length: n }, (_, i) => i);
+
+    // Vizinho mais próximo de cada grupo, para não varrer a matriz inteira a cada união
+    const nearest = new Array(n).fill(-1);
+    const nearestDistance = new Array(n).fill(Infinity);
+    const updateNearest = (i: number) => {
+      nearest[i] = -1;
+      nearestDistance[i] = Infinity;
+      for (let k = 0; k < n; k++) {
+        if (k !== i && active[k] && distance[i][k] < nearestDistance[i]) {
+          nearest[i] = k;
+          nearestDistance[i] = distance[i][k];
+        }
+      }
+    };
+    for (let i = 0; i < n; i++) {
+      updateNearest(i);
+    }
+
+    let clusterCount = n;
+
+    while (clusterCount > 1) {
+      let bestI = -1;
+      for (let i = 0; i < n; i++) {
+        if (active[i] && nearest[i] !== -1 && (bestI === -1 || nearestDistance[i] < nearestDistance[bestI])) {
+          bestI = i;
+        }
+      }
+      const bestJ = nearest[bestI];
+      const best = nearestDistance[bestI];
+
+      const reachedTarget = targetClusters !== undefined && clusterCount <= targetClusters;
+      const aboveThreshold = targetClusters === undefined && best > threshold && clusterCount <= maxSpeakers;
+      if (reachedTarget || aboveThreshold) {
+        break;
+      }
+
+      // Une j em i e atualiza as distâncias pela média ponderada
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === bestI || k === bestJ) continue;
+        const merged = (distance[bestI][k] * sizes[bestI] + distance[bestJ][k] * sizes[bestJ]) / (sizes[bestI] + sizes[bestJ]);
+        distance[bestI][k] = distance[k][bestI] = merged;
+      }
+
+      sizes[bestI] += sizes[bestJ];
+      active[bestJ] = false;
+      for (let k = 0; k < n; k++) {
+        if (assignment[k] === bestJ) assignment[k] = bestI;
+      }
+      clusterCount--;
+
+      updateNearest(bestI);
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === bestI) continue;
+        if (nearest[k] === bestI || nearest[k] === bestJ) {
+          updateNearest(k);
+        } else if (distance[k][bestI] < nearestDistance[k]) {
+          nearest[k] = bestI;
+          nearestDistance[k] = distance[k][bestI];
+        }
+      }
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Nomeia os grupos como S1, S2... pela ordem em que aparecem
+   */
+  private labelByFirstAppearance(assignment: number[]): string[] {
+    const labels = new Map<number, string>();
+    return assignment.map(cluster => {
+      if (!labels.has(cluster)) {
+        labels.set(cluster, `S${labels.size + 1}`);
+      }
+      return labels.get(cluster)!;
+    });
+  }
+
+  private summarize(segments: TranscriptionSegment[], names?: Record<string, string>): SpeakerSummary[] {
+    const summary = new Map<string, SpeakerSummary>();
+
+    for (const segment of segments) {
+      const label = segment.speaker!;
+      const entry = summary.get(label) || { label, name: names?.[label], segments: 0, duration: 0 };
+      entry.segments++;
+      entry.duration = parseFloat((entry.duration + segment.end - segment.start).toFixed(2));
+      summary.set(label, entry);
+    }
+
+    return Array.from(summary.values());
+  }
+}
@@ -0,0 +1,391 @@
+import { exec } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { getLanguageIso6392, getLanguageName } from '../utils/languages';
+import { TranslatedTranscriptionSegment } from './translation.service';
+
+const execAsync = promisify(exec);
+
+export const TTS_ENGINES = ['espeak-ng', 'piper'] as const;
+
+export type TTSEngine = typeof TTS_ENGINES[number];
+
+export interface DubbingOptions {
+  engine?: TTSEngine;
+  voices?: Record<string, string>;  // Voz por idioma (espeak-ng: ex. "pt-br"; piper: nome do modelo .onnx)
+  duckRatio?: number;               // Compressão do áudio original enquanto a dublagem fala (1 = sem ducking)
+}
+
+export interface DubTrack {
+  language: string;
+  voice: string;
+  audioPath: string;                // WAV com todas as falas já posicionadas
+  stats: DubbingStats;
+}
+
+export interface DubbingStats {
+  segments: number;
+  synthesized: number;
+  stretched: number;                // Falas aceleradas para caber na janela
+  truncated: number;                // Falas que nem aceleradas couberam (cortadas com fade)
+  skipped: number;                  // Segmentos sem texto ou com falha na síntese
+}
+
+export interface DubbingResult {
+  success: boolean;
+  message: string;
+  outputPath?: string;
+}
+
+const SAMPLE_RATE = 48000;
+const FADE_SECONDS = 0.05;
+
+/**
+ * Dublagem offline: sintetiza cada segmento traduzido com um TTS local (espeak-ng ou Piper),
+ * ajusta a fala à janela start/end e mistura sobre o áudio original com ducking
+ */
+export class DubbingService {
+  private readonly defaults: Required<Omit<DubbingOptions, 'voices'>>;
+  private readonly maxTempo: number;
+
+  constructor() {
+    this.defaults = {
+      engine: (process.env.DUBBING_ENGINE as TTSEngine) || 'espeak-ng',
+      duckRatio: parseFloat(process.env.DUBBING_DUCK_RATIO || '8')
+    };
+    this.maxTempo = parseFloat(process.env.DUBBING_MAX_TEMPO || '1.6');
+  }
+
+  resolveOptions(options: DubbingOptions = {}): Required<DubbingOptions> {
+    return {
+      engine: options.engine || this.defaults.engine,
+      voices: options.voices || {},
+      duckRatio: options.duckRatio ?? this.defaults.duckRatio
+    };
+  }
+
+  /**
+   * Voz usada para o idioma: a da requisição, a do ambiente (PIPER_VOICE_PT, ESPEAK_VOICE_PT...)
+   * ou, no espeak-ng, o próprio código do idioma. Retorna undefined se o Piper não tiver voz.
+   */
+  resolveVoice(language: string, options: Required<DubbingOptions>): string | undefined {
+    const envPrefix = options.engine === 'piper' ? 'PIPER_VOICE' : 'ESPEAK_VOICE';
+    const voice = options.voices[language] || process.env[`${envPrefix}_${language.toUpperCase().replace(/-/g, '_')}`];
+
+    if (voice) {
+      return voice;
+    }
+    return options.engine === 'espeak-ng' ? language : undefined;
+  }
+
+  async isEngineAvailable(engine: TTSEngine): Promise<boolean> {
+    try {
+      await execAsync(engine === 'piper' ? `"${this.piperBin()}" --help` : `"${this.espeakBin()}" --version`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Gera o áudio dublado de um idioma: uma fala por segmento, posicionada no seu início
+   */
+  async buildDubTrack(
+    language: string,
+    segments: TranslatedTranscriptionSegment[],
+    options: DubbingOptions = {}
+  ): Promise<DubTrack> {
+    const config = this.resolveOptions(options);
+    const voice = this.resolveVoice(language, config);
+    if (!voice) {
+      throw new Error(`Nenhuma voz do Piper configurada para "${language}" (dubbingVoices ou PIPER_VOICE_${language.toUpperCase()})`);
+    }
+
+    const workDir = path.join('temp', `dub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+    fs.mkdirSync(workDir, { recursive: true });
+
+    const stats: DubbingStats = { segments: segments.length, synthesized: 0, stretched: 0, truncated: 0, skipped: 0 };
+    const clips: Array<{ path: string; start: number }> = [];
+
+    console.log(`🗣️ Dublando ${segments.length} segmentos em ${language} (${config.engine}, voz ${voice})`);
+
+    try {
+      for (const [index, segment] of segments.entries()) {
+        const text = segment.text.replace(/\s+/g, ' ').trim();
+        const window = segment.end - segment.start;
+        if (!text || window <= 0) {
+          stats.skipped++;
+          continue;
+        }
+
+        const rawPath = path.join(workDir, `raw_${index}.wav`);
+        const clipPath = path.join(workDir, `clip_${index}.wav`);
+
+        try {
+          await this.synthesize(text, voice, config.engine, rawPath, workDir);
+          const fit = await this.fitToWindow(rawPath, clipPath, window);
+          stats.synthesized++;
+          if (fit.stretched) {
+            stats.stretched++;
+          }
+          if (fit.truncated) {
+            stats.truncated++;
+          }
+          clips.push({ path: clipPath, start: segment.start });
+        } catch (error: any) {
+          console.warn(`⚠️ Falha ao sintetizar o segmento ${index} (${language}): ${error.message}`);
+          stats.skipped++;
+        } finally {
+          if (fs.existsSync(rawPath)) {
+            fs.unlinkSync(rawPath);
+          }
+        }
+      }
+
+      if (clips.length === 0) {
+        throw new Error(`Nenhuma fala sintetizada em ${language}`);
+      }
+
+      const audioPath = `${workDir}.wav`;
+      await this.placeClips(clips, audioPath, workDir);
+
+      console.log(`✅ Dublagem ${language}: ${stats.synthesized} falas (${stats.stretched} aceleradas, ${stats.truncated} cortadas)`);
+      return { language, voice, audioPath, stats };
+
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Acrescenta uma faixa de áudio por dublagem: a fala sobre o áudio original, que é comprimido
+   * (sidechain) enquanto a dublagem fala. Vídeo, áudio original e legendas são copiados.
+   */
+  async muxDubbedAudio(
+    inputVideoPath: string,
+    tracks: DubTrack[],
+    options: DubbingOptions = {}
+  ): Promise<DubbingResult> {
+    try {
+      const config = this.resolveOptions(options);
+      const audioStreams = await this.countAudioStreams(inputVideoPath);
+      const ext = path.extname(inputVideoPath);
+      const outputPath = path.join(path.dirname(inputVideoPath), `${path.basename(inputVideoPath, ext)}_dubbed${ext}`);
+
+      const ffmpegCommand = this.buildMuxCommand(inputVideoPath, tracks, outputPath, audioStreams, config.duckRatio);
+      console.log(`🔄 Executando FFmpeg: ${ffmpegCommand}`);
+      await execAsync(ffmpegCommand);
+
+      if (!fs.existsSync(outputPath)) {
+        return {
+          success: false,
+          message: 'Arquivo dublado não foi criado'
+        };
+      }
+
+      console.log(`✅ Faixas dubladas adicionadas: ${outputPath} (${tracks.map(track => track.language).join(', ')})`);
+
+      return {
+        success: true,
+        message: 'Dublagem adicionada com sucesso',
+        outputPath
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao adicionar dublagem:', error);
+      return {
+        success: false,
+        message: `Erro na dublagem: ${error.message}`
+      };
+    }
+  }
+
+  /**
+   * Remove os áudios dublados intermediários
+   */
+  cleanup(tracks: DubTrack[]): void {
+    tracks
+      .filter(track => fs.existsSync(track.audioPath))
+      .forEach(track => fs.unlinkSync(track.audioPath));
+  }
+
+  /**
+   * O texto vai por arquivo (espeak-ng) ou stdin (Piper), nunca pela linha de comando
+   */
+  private async synthesize(text: string, voice: string, engine: TTSEngine, outputPath: string, workDir: string): Promise<void> {
+    const textPath = path.join(workDir, 'text.txt');
+    fs.writeFileSync(textPath, text, 'utf8');
+
+    const command = engine === 'piper'
+      ? `"${this.piperBin()}" --model "${this.piperModelPath(voice)}" --output_file "${outputPath}" < "${textPath}"`
+      : `"${this.espeakBin()}" -v "${voice.replace(/[^\w+-]/g, '')}" -w "${outputPath}" -f "${textPath}"`;
+
+    await execAsync(command);
+
+    if (!fs.existsSync(outputPath)) {
+      throw new Error('TTS não gerou o arquivo de áudio');
+    }
+  }
+
+  /**
+   * Acelera a fala (atempo, até DUBBING_MAX_TEMPO) quando passa da janela; se ainda
+   * assim não couber, corta no fim da janela com um fade curto. Falas curtas ficam como estão.
+   */
+  private async fitToWindow(inputPath: string, outputPath: string, window: number): Promise<{ stretched: boolean; truncated: boolean }> {
+    const duration = await this.probeDuration(inputPath);
+    const tempo = duration / window;
+    const stretched = tempo > 1.02;
+    const appliedTempo = Math.min(tempo, this.maxTempo);
+    const truncated = tempo > this.maxTempo;
+
+    const filters = [
+      ...(stretched ? this.atempoChain(appliedTempo) : []),
+      ...(truncated ? [`afade=t=out:st=${Math.max(0, window - FADE_SECONDS).toFixed(3)}:d=${FADE_SECONDS}`] : [])
+    ];
+
+    const command = [
+      'ffmpeg',
+      '-i', `"${inputPath}"`,
+      ...(filters.length > 0 ? ['-af', `"${filters.join(',')}"`] : []),
+      ...(truncated ? ['-t', window.toFixed(3)] : []),
+      '-ar', String(SAMPLE_RATE),
+      '-ac', '1',
+      '-y',
+      `"${outputPath}"`
+    ].join(' ');
+
+    await execAsync(command);
+    return { stretched, truncated };
+  }
+
+  /**
+   * atempo aceita no máximo 2.0 por instância nas versões antigas do FFmpeg
+   */
+  private atempoChain(tempo: number): string[] {
+    const chain: string[] = [];
+    let remaining = tempo;
+    while (remaining > 2) {
+      chain.push('atempo=2.0');
+      remaining /= 2;
+    }
+    chain.push(`atempo=${remaining.toFixed(4)}`);
+    return chain;
+  }
+
+  /**
+   * Junta as falas em um único WAV, cada uma atrasada até o seu início. O filtro vai
+   * em arquivo: com centenas de falas, a linha de comando ficaria longa demais.
+   */
+  private async placeClips(clips: Array<{ path: string; start: number }>, outputPath: string, workDir: string): Promise<void> {
+    const filterPath = path.join(workDir, 'mix.txt');
+    const delayed = clips.map((clip, index) => {
+      const delay = Math.round(clip.start * 1000);
+      return `[${index}:a]adelay=${delay}|${delay}[d${index}]`;
+    });
+    const inputs = clips.map((_, index) => `[d${index}]`).join('');
+    fs.writeFileSync(
+      filterPath,
+      `${delayed.join(';\n')};\n${inputs}amix=inputs=${clips.length}:dropout_transition=0:normalize=0[out]`,
+      'utf8'
+    );
+
+    const command = [
+      'ffmpeg',
+      ...clips.flatMap(clip => ['-i', `"${clip.path}"`]),
+      '-filter_complex_script', `"${filterPath}"`,
+      '-map', '"[out]"',
+      '-ar', String(SAMPLE_RATE),
+      '-y',
+      `"${outputPath}"`
+    ].join(' ');
+
+    await execAsync(command, { maxBuffer: 10 * 1024 * 1024 });
+  }
+
+  private buildMuxCommand(
+    inputPath: string,
+    tracks: DubTrack[],
+    outputPath: string,
+    audioStreams: number,
+    duckRatio: number
+  ): string {
+    const hasOriginal = audioStreams > 0;
+    const ducking = duckRatio > 1;
+
+    // O áudio original é dividido: uma cópia por dublagem
+    const filters: string[] = hasOriginal && tracks.length > 1
+      ? [`[0:a:0]asplit=${tracks.length}${tracks.map((_, index) => `[orig${index}]`).join('')}`]
+      : [];
+
+    tracks.forEach((_, index) => {
+      const input = index + 1;
+      const original = tracks.length > 1 ? `[orig${index}]` : '[0:a:0]';
+
+      if (!hasOriginal) {
+        filters.push(`[${input}:a]anull[mix${index}]`);
+      } else if (ducking) {
+        filters.push(
+          `[${input}:a]asplit=2[dub${index}][sc${index}]`,
+          `${original}[sc${index}]sidechaincompress=threshold=0.02:ratio=${duckRatio}:attack=20:release=400[duck${index}]`,
+          `[duck${index}][dub${index}]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[mix${index}]`
+        );
+      } else {
+        filters.push(`${original}[${input}:a]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[mix${index}]`);
+      }
+    });
+
+    const audioCodec = path.extname(outputPath) === '.webm' ? 'libopus' : 'aac';
+    const streams = tracks.flatMap((track, index) => {
+      const stream = audioStreams + index;
+      return [
+        '-map', `"[mix${index}]"`,
+        `-c:a:${stream}`, audioCodec,
+        `-b:a:${stream}`, '160k',
+        `-metadata:s:a:${stream}`, `language=${getLanguageIso6392(track.language)}`,
+        `-metadata:s:a:${stream}`, `title="${getLanguageName(track.language)} (dublado)"`,
+        // O áudio original continua como padrão; sem ele, a primeira dublagem assume
+        `-disposition:a:${stream}`, stream === 0 ? 'default' : '0'
+      ];
+    });
+
+    return [
+      'ffmpeg',
+      '-i', `"${inputPath}"`,
+      ...tracks.flatMap(track => ['-i', `"${track.audioPath}"`]),
+      '-filter_complex', `"${filters.join(';')}"`,
+      '-map', '0',
+      '-c', 'copy',
+      ...streams,
+      '-y',
+      `"${outputPath}"`
+    ].join(' ');
+  }
+
+  private async countAudioStreams(inputPath: string): Promise<number> {
+    const { stdout } = await execAsync(`ffprobe -v error -select_streams a -show_entries stream=index -of csv=p=0 "${inputPath}"`);
+    return stdout.trim().split('\n').filter(line => line.trim() !== '').length;
+  }
+
+  private async probeDuration(filePath: string): Promise<number> {
+    const { stdout } = await execAsync(`ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${filePath}"`);
+    const duration = parseFloat(stdout.trim());
+    if (isNaN(duration)) {
+      throw new Error('Não foi possível obter a duração da fala');
+    }
+    return duration;
+  }
+
+  private espeakBin(): string {
+    return process.env.ESPEAK_BIN || 'espeak-ng';
+  }
+
+  private piperBin(): string {
+    return process.env.PIPER_BIN || 'piper';
+  }
+
+  private piperModelPath(voice: string): string {
+    const name = path.basename(voice).replace(/\.onnx$/, '').replace(/[^\w.+-]/g, '');
+    return path.join(process.env.PIPER_VOICES_DIR || './models/piper', `${name}.onnx`);
+  }
+}
@@ -0,0 +1,47 @@
+import { SpeechRegion } from '../vad.service';
+import { TranscriptionContext, TranscriptionSegment } from '../whisper.service';
+
+export interface EngineTranscription {
+  segments: TranscriptionSegment[];
+  language?: string;
+}
+
+export interface LanguageProbability {
+  language: string;
+  probability: number;
+}
+
+export interface LanguageDetection {
+  language: string;
+  probability: number;
+  probabilities?: LanguageProbability[];  // Ranking de todos os candidatos; ausente quando o detector só informa o mais provável (whisper.cpp)
+}
+
+/**
+ * Contrato comum dos motores de reconhecimento de fala usados pelo WhisperService
+ */
+export interface TranscriptionEngine {
+  readonly name: string;
+
+  /**
+   * Indica se o motor precisa de WAV PCM 16 kHz mono como entrada
+   */
+  readonly requiresPcm16k: boolean;
+
+  isAvailable(): Promise<boolean>;
+
+  /**
+   * Identifica o idioma falado em até 30s de áudio a partir de `offset` (segundos)
+   */
+  detectLanguage(audioPath: string, offset: number): Promise<LanguageDetection | null>;
+
+  /**
+   * `speechRegions` vem do VAD (tempo local do arquivo) e pode ser usado pelo motor para segmentar
+   */
+  transcribe(
+    audioPath: string,
+    duration: number,
+    context?: TranscriptionContext,
+    speechRegions?: SpeechRegion[]
+  ): Promise<EngineTranscription>;
+}
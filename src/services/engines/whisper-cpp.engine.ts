@@ -0,0 +1,263 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { TranscriptionContext, TranscriptionSegment, TranscriptionWord } from '../whisper.service';
+import { EngineTranscription, LanguageDetection, TranscriptionEngine } from './transcription-engine';
+
+const execFileAsync = promisify(execFile);
+
+interface WhisperCppToken {
+  text: string;
+  id: number;
+  p: number;
+  offsets?: { from: number; to: number };
+}
+
+interface WhisperCppSegment {
+  offsets: { from: number; to: number };
+  text: string;
+  tokens?: WhisperCppToken[];
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription: WhisperCppSegment[];
+}
+
+/**
+ * Motor local baseado no binário do whisper.cpp (whisper-cli)
+ */
+export class WhisperCppEngine implements TranscriptionEngine {
+  readonly name = 'whisper-cpp';
+  readonly requiresPcm16k = true;
+
+  private readonly binaryPath: string;
+  private readonly modelPath: string;
+  private readonly threads?: number;
+
+  constructor(model: string) {
+    this.binaryPath = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+    this.modelPath = process.env.WHISPER_CPP_MODEL_PATH ||
+      path.join(process.env.WHISPER_CPP_MODELS_DIR || './models', `ggml-${model}.bin`);
+    this.threads = process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS, 10) : undefined;
+  }
+
+  /**
+   * Verifica se o binário executa e se o modelo existe em disco
+   */
+  async isAvailable(): Promise<boolean> {
+    if (!fs.existsSync(this.modelPath)) {
+      console.warn(`⚠️ Modelo whisper.cpp não encontrado: ${this.modelPath}`);
+      return false;
+    }
+
+    try {
+      await execFileAsync(this.binaryPath, ['--help']);
+      return true;
+    } catch (error: any) {
+      // Algumas versões retornam código != 0 no --help, mas ainda imprimem o uso
+      const output = `${error.stdout || ''}${error.stderr || ''}`;
+      if (output.includes('usage')) {
+        return true;
+      }
+      console.warn(`⚠️ Binário whisper.cpp não encontrado: ${this.binaryPath}`);
+      return false;
+    }
+  }
+
+  /**
+   * Usa o modo --detect-language do whisper.cpp, que só informa o idioma mais provável
+   */
+  async detectLanguage(audioPath: string, offset: number): Promise<LanguageDetection | null> {
+    const args = [
+      '-m', this.modelPath,
+      '-f', audioPath,
+      '-dl',
+      '-ot', String(Math.floor(offset * 1000)),
+      '-d', '30000',
+      '-np'
+    ];
+
+    try {
+      const { stdout, stderr } = await execFileAsync(this.binaryPath, args, { maxBuffer: 10 * 1024 * 1024 });
+      const match = `${stdout}\n${stderr}`.match(/auto-detected language:\s*([a-z]{2,3})\s*\(p\s*=\s*([\d.]+)\)/);
+
+      if (!match) {
+        console.warn('⚠️ whisper.cpp não informou o idioma detectado');
+        return null;
+      }
+
+      // O whisper-cli não imprime as probabilidades dos demais idiomas, então não há ranking
+      return {
+        language: match[1],
+        probability: parseFloat(match[2])
+      };
+
+    } catch (error: any) {
+      console.warn(`⚠️ Falha na identificação de idioma com whisper.cpp: ${error.message}`);
+      return null;
+    }
+  }
+
+  async transcribe(
+    audioPath: string,
+    duration: number,
+    context?: TranscriptionContext
+  ): Promise<EngineTranscription> {
+    const outputPrefix = path.join(
+      path.dirname(audioPath),
+      `${path.basename(audioPath, path.extname(audioPath))}_whisper_${Date.now()}`
+    );
+    const jsonPath = `${outputPrefix}.json`;
+
+    // Argumentos passados direto ao binário (execFile), sem shell: nada da requisição é interpretado
+    const args = [
+      '-m', this.modelPath,
+      '-f', audioPath,
+      '-l', context?.language || 'auto',
+      '-ojf',
+      '-of', outputPrefix,
+      '-np'
+    ];
+
+    if (this.threads) {
+      args.push('-t', String(this.threads));
+    }
+
+    if (context?.temperature !== undefined) {
+      args.push('-tp', String(context.temperature));
+    }
+
+    const prompt = this.buildPrompt(context);
+    if (prompt) {
+      args.push('--prompt', prompt);
+    }
+
+    console.log(`🔄 Executando whisper.cpp: ${this.binaryPath} ${args.join(' ')}`);
+
+    try {
+      await execFileAsync(this.binaryPath, args, { maxBuffer: 50 * 1024 * 1024 });
+
+      if (!fs.existsSync(jsonPath)) {
+        throw new Error('whisper.cpp não gerou o arquivo JSON de saída');
+      }
+
+      const output: WhisperCppOutput = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+      const segments = this.parseSegments(output, duration, context?.temperature, context?.wordTimestamps);
+
+      console.log(`📝 whisper.cpp retornou ${segments.length} segmentos (${duration}s)`);
+
+      return {
+        segments,
+        language: output.result?.language
+      };
+
+    } finally {
+      if (fs.existsSync(jsonPath)) {
+        fs.unlinkSync(jsonPath);
+      }
+    }
+  }
+
+  /**
+   * Converte a saída JSON do whisper.cpp para segmentos no formato do Whisper
+   */
+  private parseSegments(
+    output: WhisperCppOutput,
+    duration: number,
+    temperature: number = 0.0,
+    wordTimestamps: boolean = false
+  ): TranscriptionSegment[] {
+    return (output.transcription || [])
+      .filter(item => item.text && item.text.trim() !== '')
+      .map((item, index): TranscriptionSegment => {
+        const start = item.offsets.from / 1000;
+        const end = Math.min(item.offsets.to / 1000, duration);
+        const text = item.text.trim();
+
+        // Tokens especiais ([_BEG_], [_TT_...]) não fazem parte do texto
+        const textTokens = (item.tokens || []).filter(token => !token.text.startsWith('[_'));
+        const avgLogprob = textTokens.length > 0
+          ? textTokens.reduce((sum, token) => sum + Math.log(Math.max(token.p, 1e-10)), 0) / textTokens.length
+          : undefined;
+
+        return {
+          id: index,
+          seek: Math.floor(start * 100),
+          start: parseFloat(start.toFixed(2)),
+          end: parseFloat(end.toFixed(2)),
+          text,
+          tokens: textTokens.map(token => token.id),
+          temperature,
+          avg_logprob: avgLogprob,
+          compression_ratio: this.compressionRatio(text),
+          words: wordTimestamps ? this.groupTokensIntoWords(textTokens, duration) : undefined
+        };
+      });
+  }
+
+  /**
+   * Agrupa tokens em palavras: um token que começa com espaço inicia uma nova palavra
+   */
+  private groupTokensIntoWords(tokens: WhisperCppToken[], duration: number): TranscriptionWord[] {
+    const groups: WhisperCppToken[][] = [];
+
+    for (const token of tokens) {
+      if (!token.offsets) {
+        continue;
+      }
+      const current = groups[groups.length - 1];
+      if (!current || token.text.startsWith(' ')) {
+        groups.push([token]);
+      } else {
+        current.push(token);
+      }
+    }
+
+    return groups
+      .map(group => {
+        const first = group[0].offsets!;
+        const last = group[group.length - 1].offsets!;
+
+        return {
+          word: group.map(token => token.text).join('').trim(),
+          start: parseFloat((first.from / 1000).toFixed(2)),
+          end: parseFloat((Math.min(last.to / 1000, duration)).toFixed(2)),
+          probability: group.reduce((sum, token) => sum + token.p, 0) / group.length
+        };
+      })
+      .filter(word => word.word.length > 0);
+  }
+
+  /**
+   * Mesma métrica do Whisper: tamanho do texto / tamanho comprimido
+   */
+  private compressionRatio(text: string): number {
+    const bytes = Buffer.from(text, 'utf8');
+    if (bytes.length === 0) {
+      return 0;
+    }
+    return bytes.length / zlib.deflateSync(bytes).length;
+  }
+
+  /**
+   * Monta o prompt inicial a partir do contexto da requisição
+   */
+  private buildPrompt(context?: TranscriptionContext): string | undefined {
+    const parts: string[] = [];
+
+    if (context?.prompt) {
+      parts.push(context.prompt);
+    }
+    if (context?.topic) {
+      parts.push(context.topic);
+    }
+    if (context?.vocabulary && context.vocabulary.length > 0) {
+      parts.push(context.vocabulary.join(', '));
+    }
+
+    return parts.length > 0 ? parts.join('. ') : undefined;
+  }
+}
@@ -0,0 +1,345 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface GlossaryTerm {
+  source: string;                   // Termo no idioma de origem
+  targets: Record<string, string>;  // Tradução obrigatória por idioma de destino
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  description?: string;
+  terms: GlossaryTerm[];
+  protectedTerms: string[];         // Marcas, códigos de produto etc. mantidos como no original
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GlossaryInput {
+  id?: string;
+  name: string;
+  description?: string;
+  terms: GlossaryTerm[];
+  protectedTerms: string[];
+}
+
+/**
+ * Regra aplicada a um texto: `target` é o termo exigido na tradução
+ * (igual a `source` para termos protegidos)
+ */
+export interface GlossaryRule {
+  source: string;
+  target: string;
+  protected: boolean;
+}
+
+/**
+ * Conjunto de regras de uma requisição, combinando glossários e vocabulário
+ */
+export interface GlossaryRules {
+  glossaryIds: string[];
+  terms: GlossaryTerm[];
+  protectedTerms: string[];
+}
+
+export interface GlossaryViolation {
+  source: string;
+  expected: string;
+  type: 'glossary' | 'protected';
+}
+
+export interface ProtectedText {
+  text: string;
+  placeholders: string[];  // Termo restaurado no lugar de cada ⟦n⟧
+}
+
+/**
+ * Glossários nomeados persistidos em JSON, aplicados pelo TranslationService
+ */
+export class GlossaryService {
+  private static instance?: GlossaryService;
+
+  private readonly filePath: string;
+  private glossaries = new Map<string, Glossary>();
+  private loaded = false;
+
+  constructor() {
+    this.filePath = process.env.GLOSSARY_PATH || './data/glossaries.json';
+  }
+
+  static getInstance(): GlossaryService {
+    if (!GlossaryService.instance) {
+      GlossaryService.instance = new GlossaryService();
+    }
+    return GlossaryService.instance;
+  }
+
+  list(): Glossary[] {
+    this.ensureLoaded();
+    return Array.from(this.glossaries.values());
+  }
+
+  get(id: string): Glossary | undefined {
+    this.ensureLoaded();
+    return this.glossaries.get(id);
+  }
+
+  has(id: string): boolean {
+    this.ensureLoaded();
+    return this.glossaries.has(id);
+  }
+
+  create(input: GlossaryInput): Glossary {
+    this.ensureLoaded();
+
+    const id = input.id || this.slugify(input.name);
+    if (this.glossaries.has(id)) {
+      throw new Error(`Glossário "${id}" já existe`);
+    }
+
+    const now = new Date().toISOString();
+    const glossary: Glossary = {
+      id,
+      name: input.name,
+      description: input.description,
+      terms: input.terms,
+      protectedTerms: input.protectedTerms,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.glossaries.set(id, glossary);
+    this.save();
+    console.log(`📘 Glossário criado: ${id} (${glossary.terms.length} termos, ${glossary.protectedTerms.length} protegidos)`);
+    return glossary;
+  }
+
+  update(id: string, input: GlossaryInput): Glossary | undefined {
+    const existing = this.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const glossary: Glossary = {
+      ...existing,
+      name: input.name,
+      description: input.description,
+      terms: input.terms,
+      protectedTerms: input.protectedTerms,
+      updatedAt: new Date().toISOString()
+    };
+
+    this.glossaries.set(id, glossary);
+    this.save();
+    console.log(`📘 Glossário atualizado: ${id}`);
+    return glossary;
+  }
+
+  delete(id: string): boolean {
+    this.ensureLoaded();
+
+    const removed = this.glossaries.delete(id);
+    if (removed) {
+      this.save();
+      console.log(`🗑️ Glossário removido: ${id}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Valida o corpo de criação/atualização. Retorna uma mensagem de erro se for inválido.
+   */
+  validate(body: any): GlossaryInput | string {
+    if (!body || typeof body.name !== 'string' || body.name.trim() === '') {
+      return 'Campo "name" é obrigatório';
+    }
+
+    if (body.id !== undefined && (typeof body.id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(body.id))) {
+      return 'Campo "id" deve conter apenas letras minúsculas, números, "-" e "_"';
+    }
+
+    const terms = body.terms ?? [];
+    if (!Array.isArray(terms)) {
+      return 'Campo "terms" deve ser um array de {source, targets}';
+    }
+
+    for (const [index, term] of terms.entries()) {
+      if (!term || typeof term.source !== 'string' || term.source.trim() === '') {
+        return `Termo ${index + 1}: "source" é obrigatório`;
+      }
+      if (!term.targets || typeof term.targets !== 'object' || Array.isArray(term.targets) ||
+          Object.values(term.targets).some(value => typeof value !== 'string' || value.trim() === '')) {
+        return `Termo ${index + 1}: "targets" deve mapear idiomas para textos, ex.: {"en": "checkout"}`;
+      }
+    }
+
+    const protectedTerms = body.protectedTerms ?? [];
+    if (!Array.isArray(protectedTerms) || protectedTerms.some((term: any) => typeof term !== 'string' || term.trim() === '')) {
+      return 'Campo "protectedTerms" deve ser um array de textos';
+    }
+
+    return {
+      id: body.id,
+      name: body.name.trim(),
+      description: typeof body.description === 'string' ? body.description : undefined,
+      terms: terms.map((term: any) => ({ source: term.source.trim(), targets: term.targets })),
+      protectedTerms: protectedTerms.map((term: string) => term.trim())
+    };
+  }
+
+  /**
+   * Combina os glossários pedidos com o vocabulário da transcrição (tratado como termos protegidos)
+   */
+  resolve(glossaryIds: string[], vocabulary: string[] = []): GlossaryRules {
+    const terms: GlossaryTerm[] = [];
+    const protectedTerms = new Set<string>();
+
+    for (const id of glossaryIds) {
+      const glossary = this.get(id);
+      if (!glossary) {
+        throw new Error(`Glossário "${id}" não existe`);
+      }
+      terms.push(...glossary.terms);
+      glossary.protectedTerms.forEach(term => protectedTerms.add(term));
+    }
+
+    vocabulary
+      .map(term => term.trim())
+      .filter(term => term.length > 0)
+      .forEach(term => protectedTerms.add(term));
+
+    return { glossaryIds, terms, protectedTerms: Array.from(protectedTerms) };
+  }
+
+  /**
+   * Regras que valem para o texto e o idioma de destino.
+   * Termos mais longos vêm primeiro para que "Pix Cobrança" ganhe de "Pix".
+   */
+  matchRules(text: string, targetLanguage: string, rules?: GlossaryRules): GlossaryRule[] {
+    if (!rules || !text) {
+      return [];
+    }
+
+    const candidates: GlossaryRule[] = [
+      ...rules.protectedTerms.map(term => ({ source: term, target: term, protected: true })),
+      ...rules.terms
+        .filter(term => term.targets[targetLanguage])
+        .map(term => ({ source: term.source, target: term.targets[targetLanguage], protected: false }))
+    ];
+
+    const seen = new Set<string>();
+    return candidates
+      .sort((a, b) => b.source.length - a.source.length)
+      .filter(rule => {
+        const key = rule.source.toLowerCase();
+        if (seen.has(key) || !this.termPattern(rule.source).test(text)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+
+  /**
+   * Identifica o conjunto de regras aplicado, para separar entradas na memória de tradução
+   */
+  fingerprint(rules: GlossaryRule[]): string | undefined {
+    if (rules.length === 0) {
+      return undefined;
+    }
+    const canonical = rules.map(rule => `${rule.source}=>${rule.target}`).sort().join('|');
+    return crypto.createHash('sha1').update(canonical).digest('hex').substring(0, 12);
+  }
+
+  /**
+   * Troca os termos por marcadores ⟦n⟧ antes de enviar a provedores que não entendem glossário
+   */
+  protect(text: string, rules: GlossaryRule[]): ProtectedText {
+    const placeholders: string[] = [];
+    let protectedText = text;
+
+    for (const rule of rules) {
+      protectedText = protectedText.replace(this.termPattern(rule.source, 'g'), () => {
+        placeholders.push(rule.target);
+        return `⟦${placeholders.length - 1}⟧`;
+      });
+    }
+
+    return { text: protectedText, placeholders };
+  }
+
+  /**
+   * Devolve os termos aos marcadores (o provedor pode ter inserido espaços dentro deles)
+   */
+  restore(text: string, placeholders: string[]): string {
+    return text.replace(/⟦\s*(\d+)\s*⟧/g, (match, index) => placeholders[parseInt(index, 10)] ?? match);
+  }
+
+  /**
+   * Confere se cada termo exigido aparece na tradução
+   */
+  findViolations(translatedText: string, rules: GlossaryRule[]): GlossaryViolation[] {
+    return rules
+      .filter(rule => !this.termPattern(rule.target).test(translatedText))
+      .map(rule => ({
+        source: rule.source,
+        expected: rule.target,
+        type: rule.protected ? 'protected' as const : 'glossary' as const
+      }));
+  }
+
+  /**
+   * Casa o termo inteiro (sem pegar pedaços de palavras), sem diferenciar maiúsculas
+   */
+  private termPattern(term: string, extraFlags: string = ''): RegExp {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, `iu${extraFlags}`);
+  }
+
+  private slugify(name: string): string {
+    const base = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'glossary';
+
+    let id = base;
+    for (let suffix = 2; this.glossaries.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const glossaries: Glossary[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      glossaries.forEach(glossary => this.glossaries.set(glossary.id, glossary));
+      console.log(`📘 ${this.glossaries.size} glossários carregados`);
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao carregar glossários: ${error.message}`);
+    }
+  }
+
+  private save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.list(), null, 2), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,167 @@
+import { LanguageDetection, LanguageProbability } from './engines/transcription-engine';
+import { LANGUAGE_SAMPLES } from './language-samples';
+
+type Script = 'latin' | 'cyrillic' | 'arabic' | 'devanagari' | 'hangul' | 'kana' | 'han';
+
+interface TrigramProfile {
+  counts: Map<string, number>;
+  total: number;
+}
+
+// Idiomas possíveis para cada sistema de escrita
+const SCRIPT_LANGUAGES: Record<Script, string[]> = {
+  latin: ['pt', 'en', 'es', 'fr', 'de', 'it'],
+  cyrillic: ['ru'],
+  arabic: ['ar'],
+  devanagari: ['hi'],
+  hangul: ['ko'],
+  kana: ['ja'],
+  han: ['zh', 'ja']
+};
+
+const SCRIPT_PATTERNS: Array<[Script, RegExp]> = [
+  ['hangul', /[ᄀ-ᇿ㄰-㆏가-힯]/],
+  ['kana', /[぀-ヿ]/],
+  ['han', /[一-鿿㐀-䶿]/],
+  ['cyrillic', /[Ѐ-ӿ]/],
+  ['arabic', /[؀-ۿ]/],
+  ['devanagari', /[ऀ-ॿ]/],
+  ['latin', /[a-zA-ZÀ-ɏ]/]
+];
+
+/**
+ * Detector de idioma por trigramas de caracteres (Naive Bayes) treinado com
+ * as amostras embutidas; o sistema de escrita restringe os candidatos
+ */
+export class LanguageDetectorService {
+  private static profiles?: Map<string, TrigramProfile>;
+  private static vocabularySize = 0;
+
+  detect(text: string): LanguageDetection | null {
+    const normalized = this.normalize(text);
+    const trigrams = this.trigrams(normalized);
+    if (trigrams.length === 0) {
+      return null;
+    }
+
+    const profiles = this.getProfiles();
+    const candidates = this.candidatesFor(normalized);
+
+    // Log-verossimilhança com suavização de Laplace
+    const scores = candidates.map(language => {
+      const profile = profiles.get(language)!;
+      const denominator = profile.total + LanguageDetectorService.vocabularySize;
+      const logLikelihood = trigrams.reduce(
+        (sum, trigram) => sum + Math.log(((profile.counts.get(trigram) || 0) + 1) / denominator),
+        0
+      );
+      return { language, score: logLikelihood };
+    });
+
+    const probabilities = this.softmax(scores);
+    const ranked = [
+      ...probabilities,
+      // Idiomas de outro sistema de escrita ficam no fim, com probabilidade zero
+      ...Array.from(profiles.keys())
+        .filter(language => !candidates.includes(language))
+        .map(language => ({ language, probability: 0 }))
+    ].sort((a, b) => b.probability - a.probability);
+
+    return {
+      language: ranked[0].language,
+      probability: ranked[0].probability,
+      probabilities: ranked
+    };
+  }
+
+  /**
+   * Idiomas suportados pelo detector
+   */
+  getLanguages(): string[] {
+    return Object.keys(LANGUAGE_SAMPLES);
+  }
+
+  private candidatesFor(text: string): string[] {
+    const counts = new Map<Script, number>();
+
+    for (const char of text) {
+      const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+      if (match) {
+        counts.set(match[0], (counts.get(match[0]) || 0) + 1);
+      }
+    }
+
+    // Kana indica japonês mesmo com maioria de kanji
+    if ((counts.get('kana') || 0) > 0 && !counts.get('hangul')) {
+      return SCRIPT_LANGUAGES.kana;
+    }
+
+    const dominant = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    return dominant ? SCRIPT_LANGUAGES[dominant] : this.getLanguages();
+  }
+
+  /**
+   * Converte log-verossimilhanças em probabilidades (priori uniforme entre os candidatos)
+   */
+  private softmax(scores: Array<{ language: string; score: number }>): LanguageProbability[] {
+    const best = Math.max(...scores.map(item => item.score));
+    const weights = scores.map(item => ({ language: item.language, weight: Math.exp(item.score - best) }));
+    const total = weights.reduce((sum, item) => sum + item.weight, 0);
+
+    return weights.map(item => ({
+      language: item.language,
+      probability: parseFloat((item.weight / total).toFixed(4))
+    }));
+  }
+
+  private getProfiles(): Map<string, TrigramProfile> {
+    if (!LanguageDetectorService.profiles) {
+      const profiles = new Map<string, TrigramProfile>();
+      const vocabulary = new Set<string>();
+
+      for (const [language, sample] of Object.entries(LANGUAGE_SAMPLES)) {
+        const counts = new Map<string, number>();
+        const trigrams = this.trigrams(this.normalize(sample));
+
+        trigrams.forEach(trigram => {
+          counts.set(trigram, (counts.get(trigram) || 0) + 1);
+          vocabulary.add(trigram);
+        });
+        profiles.set(language, { counts, total: trigrams.length });
+      }
+
+      LanguageDetectorService.profiles = profiles;
+      LanguageDetectorService.vocabularySize = vocabulary.size;
+    }
+
+    return LanguageDetectorService.profiles;
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{M}]+/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Trigramas de cada palavra com espaços nas bordas (" ca", "cas", "asa", "sa ")
+   */
+  private trigrams(text: string): string[] {
+    const trigrams: string[] = [];
+
+    for (const word of text.split(' ')) {
+      if (word === '') {
+        continue;
+      }
+
+      const chars = Array.from(` ${word} `);
+      for (let i = 0; i + 3 <= chars.length; i++) {
+        trigrams.push(chars.slice(i, i + 3).join(''));
+      }
+    }
+
+    return trigrams;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Textos de referência usados para montar os perfis de trigramas do detector de idioma.
+ * Cada amostra mistura registros (conversa, notícias, instruções) para cobrir
+ * as combinações de letras mais comuns do idioma.
+ */
+export const LANGUAGE_SAMPLES: Record<string, string> = {
+  pt: `Olá, tudo bem com você? Hoje vamos mostrar como funciona a nova plataforma de vídeos da empresa.
+Primeiro você precisa fazer o login com o seu usuário e a sua senha. Depois disso, clique no botão para enviar
+o arquivo e espere alguns minutos enquanto o sistema processa a gravação. Quando terminar, as legendas vão
+aparecer automaticamente na tela e você pode baixar o resultado. Nós estamos muito felizes com os resultados
+deste ano, porque a equipe trabalhou bastante e conseguiu entregar tudo dentro do prazo. O governo anunciou
+ontem novas medidas para a economia, e os especialistas acreditam que a inflação deve cair nos próximos meses.
+Não esqueça de beber água, dormir bem e fazer exercícios pelo menos três vezes por semana. A gente se vê na
+próxima aula, então até logo e obrigado pela atenção. Eles não sabiam que a reunião tinha sido cancelada, mas
+ainda assim foram até o escritório para conversar com o diretor sobre o projeto. Quem quiser participar pode
+mandar uma mensagem para o nosso canal ou deixar um comentário aqui embaixo. Essa é uma ótima oportunidade
+para aprender coisas novas e conhecer pessoas de outras cidades do Brasil e de Portugal.`,
+
+  en: `Hello, how are you doing today? We are going to show you how the new video platform works for the team.
+First you need to log in with your username and password. After that, click the button to upload the file and
+wait a few minutes while the system processes the recording. When it is done, the subtitles will appear on the
+screen automatically and you can download the result. We are very happy with the results this year, because
+the team worked really hard and delivered everything on time. The government announced new measures for the
+economy yesterday, and experts believe that inflation should fall over the next few months. Don't forget to
+drink water, sleep well and exercise at least three times a week. I'll see you in the next class, so goodbye
+and thank you for your attention. They didn't know that the meeting had been cancelled, but they still went to
+the office to talk with the director about the project. Anyone who wants to join can send a message to our
+channel or leave a comment below. This is a great opportunity to learn something new and meet people from
+other cities around the world. What would you like to do with the rest of the weekend?`,
+
+  es: `Hola, ¿qué tal estás hoy? Vamos a mostrarte cómo funciona la nueva plataforma de vídeos de la empresa.
+Primero tienes que iniciar sesión con tu usuario y tu contraseña. Después de eso, haz clic en el botón para
+subir el archivo y espera unos minutos mientras el sistema procesa la grabación. Cuando termine, los subtítulos
+aparecerán automáticamente en la pantalla y podrás descargar el resultado. Estamos muy contentos con los
+resultados de este año, porque el equipo trabajó mucho y consiguió entregar todo a tiempo. El gobierno anunció
+ayer nuevas medidas para la economía, y los expertos creen que la inflación debería bajar en los próximos meses.
+No olvides beber agua, dormir bien y hacer ejercicio al menos tres veces por semana. Nos vemos en la próxima
+clase, así que hasta luego y gracias por vuestra atención. Ellos no sabían que la reunión había sido cancelada,
+pero aun así fueron a la oficina para hablar con el director sobre el proyecto. Quien quiera participar puede
+enviar un mensaje a nuestro canal o dejar un comentario aquí abajo. Esta es una gran oportunidad para aprender
+cosas nuevas y conocer a gente de otras ciudades de España y de América Latina. ¿Qué quieres hacer mañana?`,
+
+  fr: `Bonjour, comment allez-vous aujourd'hui ? Nous allons vous montrer comment fonctionne la nouvelle plateforme
+vidéo de l'entreprise. D'abord, vous devez vous connecter avec votre nom d'utilisateur et votre mot de passe.
+Ensuite, cliquez sur le bouton pour envoyer le fichier et attendez quelques minutes pendant que le système traite
+l'enregistrement. Quand ce sera terminé, les sous-titres apparaîtront automatiquement à l'écran et vous pourrez
+télécharger le résultat. Nous sommes très contents des résultats de cette année, parce que l'équipe a beaucoup
+travaillé et a tout livré dans les délais. Le gouvernement a annoncé hier de nouvelles mesures pour l'économie,
+et les experts pensent que l'inflation devrait baisser dans les prochains mois. N'oubliez pas de boire de l'eau,
+de bien dormir et de faire du sport au moins trois fois par semaine. On se voit au prochain cours, alors à bientôt
+et merci pour votre attention. Ils ne savaient pas que la réunion avait été annulée, mais ils sont quand même
+allés au bureau pour parler du projet avec le directeur. Ceux qui veulent participer peuvent envoyer un message
+sur notre chaîne ou laisser un commentaire ci-dessous. C'est une excellente occasion d'apprendre des choses
+nouvelles et de rencontrer des gens d'autres villes de France, de Belgique et du Québec.`,
+
+  de: `Hallo, wie geht es dir heute? Wir zeigen dir jetzt, wie die neue Videoplattform des Unternehmens funktioniert.
+Zuerst musst du dich mit deinem Benutzernamen und deinem Passwort anmelden. Danach klickst du auf die Schaltfläche,
+um die Datei hochzuladen, und wartest ein paar Minuten, während das System die Aufnahme verarbeitet. Wenn es fertig
+ist, erscheinen die Untertitel automatisch auf dem Bildschirm und du kannst das Ergebnis herunterladen. Wir sind
+sehr zufrieden mit den Ergebnissen dieses Jahres, weil das Team sehr hart gearbeitet und alles pünktlich geliefert
+hat. Die Regierung hat gestern neue Maßnahmen für die Wirtschaft angekündigt, und Experten glauben, dass die
+Inflation in den nächsten Monaten sinken wird. Vergiss nicht, Wasser zu trinken, gut zu schlafen und mindestens
+dreimal pro Woche Sport zu machen. Wir sehen uns in der nächsten Stunde, also tschüss und vielen Dank für eure
+Aufmerksamkeit. Sie wussten nicht, dass die Besprechung abgesagt worden war, aber sie sind trotzdem ins Büro
+gegangen, um mit dem Direktor über das Projekt zu sprechen. Wer mitmachen möchte, kann eine Nachricht an unseren
+Kanal schicken oder unten einen Kommentar schreiben. Das ist eine großartige Gelegenheit, etwas Neues zu lernen
+und Menschen aus anderen Städten in Deutschland, Österreich und der Schweiz kennenzulernen.`,
+
+  it: `Ciao, come stai oggi? Adesso ti mostriamo come funziona la nuova piattaforma video dell'azienda. Prima di
+tutto devi accedere con il tuo nome utente e la tua password. Dopo di che, fai clic sul pulsante per caricare il
+file e aspetta qualche minuto mentre il sistema elabora la registrazione. Quando avrà finito, i sottotitoli
+appariranno automaticamente sullo schermo e potrai scaricare il risultato. Siamo molto contenti dei risultati di
+quest'anno, perché la squadra ha lavorato tanto e ha consegnato tutto in tempo. Il governo ha annunciato ieri
+nuove misure per l'economia, e gli esperti credono che l'inflazione dovrebbe scendere nei prossimi mesi. Non
+dimenticare di bere acqua, dormire bene e fare esercizio almeno tre volte alla settimana. Ci vediamo alla prossima
+lezione, quindi arrivederci e grazie per l'attenzione. Loro non sapevano che la riunione era stata annullata, ma
+sono andati comunque in ufficio per parlare del progetto con il direttore. Chi vuole partecipare può mandare un
+messaggio al nostro canale o lasciare un commento qui sotto. Questa è una grande opportunità per imparare cose
+nuove e conoscere persone di altre città d'Italia e della Svizzera. Che cosa vuoi fare questo fine settimana?`,
+
+  ja: `こんにちは、今日はお元気ですか。これから会社の新しい動画プラットフォームの使い方を紹介します。
+まず、ユーザー名とパスワードでログインしてください。その後、ボタンをクリックしてファイルをアップロードし、
+システムが録音を処理する間、数分お待ちください。終わったら、字幕が自動的に画面に表示され、結果をダウンロードできます。
+チームが一生懸命働いて、すべてを期限内に届けてくれたので、今年の結果にはとても満足しています。
+政府は昨日、経済のための新しい対策を発表し、専門家は今後数か月でインフレが下がると考えています。
+水を飲むこと、よく眠ること、そして少なくとも週に三回運動することを忘れないでください。
+次の授業で会いましょう。それでは、さようなら。ご清聴ありがとうございました。
+彼らは会議が中止になったことを知りませんでしたが、それでもプロジェクトについて部長と話すために事務所へ行きました。
+参加したい人は、私たちのチャンネルにメッセージを送るか、下にコメントを残してください。
+これは新しいことを学び、日本のほかの町の人たちと知り合う素晴らしい機会です。週末は何をしたいですか。`,
+
+  ko: `안녕하세요, 오늘 잘 지내셨어요? 이제 회사의 새로운 동영상 플랫폼이 어떻게 작동하는지 보여 드리겠습니다.
+먼저 사용자 이름과 비밀번호로 로그인해야 합니다. 그 다음 버튼을 눌러 파일을 업로드하고, 시스템이 녹음을 처리하는 동안
+몇 분 정도 기다려 주세요. 작업이 끝나면 자막이 화면에 자동으로 나타나고 결과를 다운로드할 수 있습니다.
+팀이 정말 열심히 일해서 모든 것을 제시간에 전달했기 때문에 올해 결과에 매우 만족하고 있습니다.
+정부는 어제 경제를 위한 새로운 대책을 발표했고, 전문가들은 앞으로 몇 달 동안 물가 상승률이 낮아질 것이라고 생각합니다.
+물을 마시고, 잠을 잘 자고, 일주일에 적어도 세 번은 운동하는 것을 잊지 마세요. 다음 수업에서 만나요.
+그럼 안녕히 계세요, 들어 주셔서 감사합니다. 그들은 회의가 취소된 줄 몰랐지만, 그래도 프로젝트에 대해
+이사님과 이야기하려고 사무실에 갔습니다. 참여하고 싶은 사람은 우리 채널에 메시지를 보내거나 아래에 댓글을 남겨 주세요.
+이것은 새로운 것을 배우고 한국의 다른 도시 사람들을 만날 수 있는 좋은 기회입니다. 이번 주말에 뭐 하고 싶어요?`,
+
+  zh: `你好，今天过得怎么样？现在我们来介绍一下公司新的视频平台是怎么使用的。首先，你需要用你的用户名和密码登录。
+然后点击按钮上传文件，在系统处理录音的时候等几分钟。完成以后，字幕会自动出现在屏幕上，你可以下载结果。
+我们对今年的成绩非常满意，因为团队工作非常努力，按时完成了所有的任务。政府昨天宣布了新的经济措施，
+专家们认为通货膨胀在接下来的几个月里应该会下降。别忘了多喝水，好好睡觉，每个星期至少运动三次。
+我们下节课见，再见，谢谢大家的关注。他们不知道会议已经取消了，但是还是去了办公室，和经理讨论这个项目。
+想参加的人可以给我们的频道发消息，或者在下面留言。这是一个学习新东西、认识其他城市朋友的好机会。
+这个周末你想做什么？我们可以一起去看电影，也可以在家里休息，听听音乐，看看书。`,
+
+  ru: `Привет, как у тебя дела сегодня? Сейчас мы покажем, как работает новая видеоплатформа компании. Сначала
+нужно войти в систему с вашим именем пользователя и паролем. После этого нажмите на кнопку, чтобы загрузить файл,
+и подождите несколько минут, пока система обрабатывает запись. Когда всё будет готово, субтитры автоматически
+появятся на экране, и вы сможете скачать результат. Мы очень довольны результатами этого года, потому что команда
+много работала и сдала всё вовремя. Вчера правительство объявило о новых мерах для экономики, и эксперты считают,
+что инфляция должна снизиться в ближайшие месяцы. Не забывайте пить воду, хорошо спать и заниматься спортом хотя
+бы три раза в неделю. Увидимся на следующем занятии, до свидания и спасибо за внимание. Они не знали, что встреча
+была отменена, но всё равно пошли в офис, чтобы поговорить с директором о проекте. Кто хочет участвовать, может
+написать сообщение на наш канал или оставить комментарий ниже. Это отличная возможность узнать что-то новое и
+познакомиться с людьми из других городов России. Что ты хочешь делать в эти выходные?`,
+
+  ar: `مرحبا، كيف حالك اليوم؟ سنعرض لك الآن كيف تعمل منصة الفيديو الجديدة في الشركة. أولا، يجب عليك تسجيل الدخول
+باستخدام اسم المستخدم وكلمة المرور. بعد ذلك، اضغط على الزر لرفع الملف وانتظر بضع دقائق بينما يقوم النظام بمعالجة
+التسجيل. عندما ينتهي، ستظهر الترجمة تلقائيا على الشاشة ويمكنك تحميل النتيجة. نحن سعداء جدا بنتائج هذا العام، لأن
+الفريق عمل بجد وسلم كل شيء في الوقت المحدد. أعلنت الحكومة أمس عن إجراءات جديدة للاقتصاد، ويعتقد الخبراء أن التضخم
+سينخفض في الأشهر القادمة. لا تنس أن تشرب الماء وأن تنام جيدا وأن تمارس الرياضة ثلاث مرات في الأسبوع على الأقل.
+نراكم في الدرس القادم، إلى اللقاء وشكرا على انتباهكم. لم يكونوا يعرفون أن الاجتماع قد ألغي، ولكنهم ذهبوا إلى
+المكتب للتحدث مع المدير عن المشروع. من يريد المشاركة يمكنه إرسال رسالة إلى قناتنا أو ترك تعليق في الأسفل.
+هذه فرصة رائعة لتعلم أشياء جديدة والتعرف على أشخاص من مدن أخرى في العالم العربي. ماذا تريد أن تفعل في عطلة نهاية الأسبوع؟`,
+
+  hi: `नमस्ते, आज आप कैसे हैं? अब हम आपको दिखाएंगे कि कंपनी का नया वीडियो प्लेटफॉर्म कैसे काम करता है। सबसे पहले आपको
+अपने यूज़रनेम और पासवर्ड से लॉग इन करना होगा। उसके बाद फ़ाइल अपलोड करने के लिए बटन पर क्लिक करें और कुछ मिनट
+इंतज़ार करें जब तक सिस्टम रिकॉर्डिंग को प्रोसेस करता है। जब यह पूरा हो जाएगा, तो सबटाइटल अपने आप स्क्रीन पर दिखाई
+देंगे और आप नतीजा डाउनलोड कर सकते हैं। हम इस साल के नतीजों से बहुत खुश हैं, क्योंकि टीम ने बहुत मेहनत की और सब
+कुछ समय पर पूरा किया। सरकार ने कल अर्थव्यवस्था के लिए नए कदमों की घोषणा की, और विशेषज्ञों का मानना है कि आने वाले
+महीनों में महंगाई कम होनी चाहिए। पानी पीना, अच्छी नींद लेना और हफ्ते में कम से कम तीन बार व्यायाम करना मत भूलिए।
+अगली कक्षा में मिलते हैं, तो फिर मिलेंगे और ध्यान देने के लिए धन्यवाद। उन्हें नहीं पता था कि बैठक रद्द हो गई थी,
+लेकिन फिर भी वे परियोजना के बारे में निदेशक से बात करने के लिए दफ्तर गए। जो भी भाग लेना चाहता है, वह हमारे चैनल पर
+संदेश भेज सकता है या नीचे टिप्पणी छोड़ सकता है। यह कुछ नया सीखने और भारत के दूसरे शहरों के लोगों से मिलने का एक
+शानदार मौका है। इस सप्ताहांत आप क्या करना चाहते हैं?`
+};
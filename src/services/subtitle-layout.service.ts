@@ -0,0 +1,165 @@
+import { SubtitleStyle } from './video.service';
+
+export interface VideoDimensions {
+  width: number;              // Largura do quadro já girado (como o filtro de legendas o recebe)
+  height: number;
+  rotation: number;           // 0, 90, 180 ou 270
+  aspectRatio: number;        // Proporção de exibição (considera pixels não quadrados)
+}
+
+export interface SafeArea {
+  top: number;                // Porcentagem do quadro reservada em cada borda
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export type VideoOrientation = 'landscape' | 'portrait' | 'square';
+
+export interface LayoutOptions {
+  enabled?: boolean;
+  safeArea?: Partial<SafeArea>;  // Sobrepõe a área segura da orientação do vídeo
+}
+
+export interface SubtitleLayout {
+  playResX: number;
+  playResY: number;
+  scale: number;              // Fator aplicado a fonte, contorno, sombra e margens
+  orientation: VideoOrientation;
+  safeArea: SafeArea;
+  style: SubtitleStyle;
+}
+
+export const SAFE_AREA_SIDES: Array<keyof SafeArea> = ['top', 'right', 'bottom', 'left'];
+
+/**
+ * Adapta o estilo das legendas gravadas à resolução do vídeo: os tamanhos do estilo valem
+ * para a resolução de referência e são escalados para o quadro real, e as margens respeitam
+ * a área segura (maior no vídeo vertical, onde os apps sobrepõem botões e descrição)
+ */
+export class SubtitleLayoutService {
+  private readonly enabled: boolean;
+  private readonly reference: { width: number; height: number };
+  private readonly safeAreas: Record<'default' | 'vertical', SafeArea>;
+
+  constructor() {
+    this.enabled = process.env.SUBTITLE_LAYOUT !== 'false';
+    // 384x288 é a resolução em que o FFmpeg renderiza SRT: os presets foram ajustados nela
+    this.reference = this.parseResolution(process.env.SUBTITLE_REFERENCE_RESOLUTION) || { width: 384, height: 288 };
+    this.safeAreas = {
+      default: this.parseSafeArea(process.env.SUBTITLE_SAFE_AREA) || { top: 5, right: 5, bottom: 5, left: 5 },
+      vertical: this.parseSafeArea(process.env.SUBTITLE_SAFE_AREA_VERTICAL) || { top: 12, right: 15, bottom: 20, left: 5 }
+    };
+  }
+
+  isEnabled(options?: LayoutOptions): boolean {
+    return options?.enabled ?? this.enabled;
+  }
+
+  orientation(dimensions: VideoDimensions): VideoOrientation {
+    if (dimensions.aspectRatio < 0.9) {
+      return 'portrait';
+    }
+    return dimensions.aspectRatio > 1.1 ? 'landscape' : 'square';
+  }
+
+  /**
+   * Escala o estilo para o quadro e aplica a área segura como margem mínima em cada borda
+   */
+  layout(style: SubtitleStyle, dimensions: VideoDimensions, options: LayoutOptions = {}): SubtitleLayout {
+    const orientation = this.orientation(dimensions);
+    const safeArea: SafeArea = {
+      ...this.safeAreas[orientation === 'portrait' ? 'vertical' : 'default'],
+      ...options.safeArea
+    };
+
+    // O menor dos dois fatores: no vertical, a largura limita; no paisagem, a altura
+    const scale = Math.round(Math.min(
+      dimensions.width / this.reference.width,
+      dimensions.height / this.reference.height
+    ) * 1000) / 1000;
+
+    return {
+      playResX: dimensions.width,
+      playResY: dimensions.height,
+      scale,
+      orientation,
+      safeArea,
+      style: this.applyLayout(style, dimensions, scale, safeArea)
+    };
+  }
+
+  /**
+   * Aplica a mesma escala e área segura a outro estilo do mesmo vídeo (ex.: o original nas legendas bilíngues)
+   */
+  layoutStyle(style: SubtitleStyle, dimensions: VideoDimensions, layout: SubtitleLayout): SubtitleStyle {
+    return this.applyLayout(style, dimensions, layout.scale, layout.safeArea);
+  }
+
+  /**
+   * Valida a área segura da requisição (porcentagens por borda). Retorna uma mensagem de erro se for inválida.
+   */
+  validateSafeArea(input: any): Partial<SafeArea> | string {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return 'Área segura deve ser um objeto, ex.: {"bottom": 20, "right": 15}';
+    }
+
+    const unknown = Object.keys(input).filter(key => !SAFE_AREA_SIDES.includes(key as keyof SafeArea));
+    if (unknown.length > 0) {
+      return `Bordas desconhecidas na área segura: ${unknown.join(', ')} (aceitas: ${SAFE_AREA_SIDES.join(', ')})`;
+    }
+
+    const safeArea: Partial<SafeArea> = {};
+    for (const side of SAFE_AREA_SIDES) {
+      if (input[side] === undefined) {
+        continue;
+      }
+      const value = typeof input[side] === 'number' ? input[side] : parseFloat(input[side]);
+      if (isNaN(value) || value < 0 || value > 45) {
+        return `Área segura "${side}" deve ser uma porcentagem entre 0 e 45`;
+      }
+      safeArea[side] = value;
+    }
+
+    return safeArea;
+  }
+
+  private applyLayout(style: SubtitleStyle, dimensions: VideoDimensions, scale: number, safeArea: SafeArea): SubtitleStyle {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const horizontal = (style.marginHorizontal ?? 20) * scale;
+    const vertical = style.marginVertical * scale;
+
+    // MarginV vale para a borda de baixo ou de cima, conforme o alinhamento; no meio é ignorada
+    const edge = (style.alignment || 'bottom-center').startsWith('top') ? safeArea.top : safeArea.bottom;
+
+    return {
+      ...style,
+      fontSize: Math.max(1, Math.round(style.fontSize * scale)),
+      borderWidth: round(style.borderWidth * scale),
+      shadow: style.shadow ? round(style.shadow * scale) : style.shadow,
+      marginVertical: Math.round(Math.max(vertical, dimensions.height * edge / 100)),
+      marginHorizontal: Math.round(horizontal),
+      marginLeft: Math.round(Math.max(horizontal, dimensions.width * safeArea.left / 100)),
+      marginRight: Math.round(Math.max(horizontal, dimensions.width * safeArea.right / 100))
+    };
+  }
+
+  private parseResolution(value?: string): { width: number; height: number } | undefined {
+    const match = value?.match(/^(\d+)x(\d+)$/);
+    if (!match || parseInt(match[1], 10) === 0 || parseInt(match[2], 10) === 0) {
+      return undefined;
+    }
+    return { width: parseInt(match[1], 10), height: parseInt(match[2], 10) };
+  }
+
+  /**
+   * "topo,direita,base,esquerda" em porcentagem, na ordem do CSS
+   */
+  private parseSafeArea(value?: string): SafeArea | undefined {
+    const parts = value?.split(',').map(part => parseFloat(part));
+    if (!parts || parts.length !== 4 || parts.some(part => isNaN(part) || part < 0 || part > 45)) {
+      return undefined;
+    }
+    return { top: parts[0], right: parts[1], bottom: parts[2], left: parts[3] };
+  }
+}
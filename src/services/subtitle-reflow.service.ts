@@ -0,0 +1,299 @@
+import { definedFields } from '../utils/objects';
+import { TranslatedSegment } from './video.service';
+
+export interface ReflowOptions {
+  enabled?: boolean;
+  maxCharsPerLine?: number;   // Caracteres por linha
+  maxLines?: number;          // Linhas por legenda
+  maxCharsPerSecond?: number; // Velocidade máxima de leitura
+  minDuration?: number;       // Tempo mínimo (s) na tela
+  maxMergeGap?: number;       // Pausa máxima (s) entre duas legendas que podem ser unidas
+  keepSegments?: boolean;     // Não divide nem une legendas (o original de cada uma precisa continuar alinhado)
+}
+
+export interface ReflowStats {
+  inputSegments: number;
+  outputSegments: number;
+  split: number;
+  merged: number;
+  extended: number;
+  cpsViolations: number;      // Legendas que continuam rápidas demais (sem espaço para estender)
+}
+
+export interface ReflowResult {
+  segments: TranslatedSegment[];
+  stats: ReflowStats;
+}
+
+const SENTENCE_END = /[.!?…。！？]["'”’)»]*$/;
+const CLAUSE_END = /[,;:—–、，；：]["'”’)»]*$/;
+const MIN_GAP = 0.04; // Intervalo mínimo (s) entre duas legendas
+
+/**
+ * Ajusta as legendas para leitura: quebra de linhas, divisão de textos longos
+ * pela pontuação, união de legendas curtas demais e velocidade de leitura
+ */
+export class SubtitleReflowService {
+  private readonly defaults: Required<ReflowOptions>;
+
+  constructor() {
+    this.defaults = {
+      enabled: process.env.SUBTITLE_REFLOW !== 'false',
+      maxCharsPerLine: parseInt(process.env.SUBTITLE_MAX_CHARS_PER_LINE || '42', 10),
+      maxLines: parseInt(process.env.SUBTITLE_MAX_LINES || '2', 10),
+      maxCharsPerSecond: parseFloat(process.env.SUBTITLE_MAX_CPS || '17'),
+      minDuration: parseFloat(process.env.SUBTITLE_MIN_DURATION || '1'),
+      maxMergeGap: 0.5,
+      keepSegments: false
+    };
+  }
+
+  /**
+   * Mescla as opções da requisição com os padrões do ambiente
+   */
+  resolveOptions(options?: ReflowOptions): Required<ReflowOptions> {
+    return { ...this.defaults, ...definedFields(options || {}) };
+  }
+
+  reflow(segments: TranslatedSegment[], options?: ReflowOptions): ReflowResult {
+    const config = this.resolveOptions(options);
+    const stats: ReflowStats = {
+      inputSegments: segments.length,
+      outputSegments: segments.length,
+      split: 0,
+      merged: 0,
+      extended: 0,
+      cpsViolations: 0
+    };
+
+    if (!config.enabled || segments.length === 0) {
+      return { segments, stats };
+    }
+
+    const capacity = config.maxCharsPerLine * config.maxLines;
+
+    // 1. Dividir textos que não cabem na legenda, dentro do intervalo original
+    let result: TranslatedSegment[] = [];
+    for (const segment of segments) {
+      const text = this.clean(segment.text);
+      if (text.length <= capacity || config.keepSegments) {
+        result.push({ ...segment, text });
+        continue;
+      }
+
+      const parts = this.splitSegment({ ...segment, text }, capacity);
+      stats.split += parts.length - 1;
+      result.push(...parts);
+    }
+
+    // 2. Unir legendas curtas ou rápidas demais com a vizinha, se couber
+    if (!config.keepSegments) {
+      result = this.mergeShortSegments(result, config, capacity, stats);
+    }
+
+    // 3. Estender o fim sobre o silêncio seguinte para respeitar duração mínima e CPS
+    result = result.map((segment, index) => {
+      const next = result[index + 1];
+      const limit = next ? next.start - MIN_GAP : Infinity;
+      const required = Math.max(config.minDuration, segment.text.length / config.maxCharsPerSecond);
+      const duration = segment.end - segment.start;
+
+      let end = segment.end;
+      if (duration < required && limit > end) {
+        end = parseFloat(Math.min(segment.start + required, limit).toFixed(3));
+        stats.extended++;
+      }
+
+      if (segment.text.length / Math.max(end - segment.start, 0.001) > config.maxCharsPerSecond + 0.01) {
+        stats.cpsViolations++;
+      }
+
+      // 4. Quebrar em linhas
+      const wrapped = { ...segment, end, text: this.wrapLines(segment.text, config.maxCharsPerLine, config.maxLines) };
+      if (segment.originalText) {
+        wrapped.originalText = this.wrapLines(this.clean(segment.originalText), config.maxCharsPerLine, config.maxLines);
+      }
+      return wrapped;
+    });
+
+    stats.outputSegments = result.length;
+    console.log(`📐 Reflow de legendas: ${stats.inputSegments} -> ${stats.outputSegments} (${stats.split} divisões, ${stats.merged} uniões, ${stats.extended} estendidas)`);
+
+    return { segments: result, stats };
+  }
+
+  /**
+   * Quebra o texto em até `maxLines` linhas equilibradas, preferindo quebrar após pontuação
+   */
+  wrapLines(text: string, maxCharsPerLine: number, maxLines: number): string {
+    if (text.length <= maxCharsPerLine || maxLines <= 1) {
+      return text;
+    }
+
+    if (maxLines === 2) {
+      const breakAt = this.bestBreak(text, maxCharsPerLine, text.length / 2);
+      if (breakAt !== null) {
+        return `${text.substring(0, breakAt).trim()}\n${text.substring(breakAt).trim()}`;
+      }
+    }
+
+    // Mais de duas linhas (ou sem quebra equilibrada): preencher linha a linha
+    const lines: string[] = [];
+    let rest = text;
+    while (rest.length > maxCharsPerLine && lines.length < maxLines - 1) {
+      const breakAt = this.bestBreak(rest, maxCharsPerLine, maxCharsPerLine) ?? maxCharsPerLine;
+      lines.push(rest.substring(0, breakAt).trim());
+      rest = rest.substring(breakAt).trim();
+    }
+    lines.push(rest);
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Divide o texto em partes que cabem na legenda e distribui o tempo
+   * do segmento original proporcionalmente ao tamanho de cada parte
+   */
+  private splitSegment(segment: TranslatedSegment, capacity: number): TranslatedSegment[] {
+    const parts: string[] = [];
+    let rest = segment.text;
+
+    while (rest.length > capacity) {
+      const breakAt = this.punctuationBreak(rest, capacity);
+      parts.push(rest.substring(0, breakAt).trim());
+      rest = rest.substring(breakAt).trim();
+    }
+    if (rest.length > 0) {
+      parts.push(rest);
+    }
+
+    const totalChars = parts.reduce((sum, part) => sum + part.length, 0);
+    const duration = segment.end - segment.start;
+    let cursor = segment.start;
+
+    return parts.map((text, index) => {
+      const end = index === parts.length - 1
+        ? segment.end
+        : parseFloat((cursor + duration * (text.length / totalChars)).toFixed(3));
+      const part = { ...segment, start: cursor, end, text };
+      cursor = end;
+      return part;
+    });
+  }
+
+  private mergeShortSegments(
+    segments: TranslatedSegment[],
+    config: Required<ReflowOptions>,
+    capacity: number,
+    stats: ReflowStats
+  ): TranslatedSegment[] {
+    const result = [...segments];
+
+    for (let i = 0; i < result.length; i++) {
+      const segment = result[i];
+      if (!this.isTooShort(segment, config)) {
+        continue;
+      }
+
+      // Tentar unir com a seguinte; senão, com a anterior
+      for (const neighborIndex of [i + 1, i - 1]) {
+        const neighbor = result[neighborIndex];
+        if (!neighbor) {
+          continue;
+        }
+
+        const [first, second] = neighborIndex > i ? [segment, neighbor] : [neighbor, segment];
+        const merged: TranslatedSegment = {
+          ...first,
+          end: second.end,
+          text: `${first.text} ${second.text}`
+        };
+
+        const canMerge = first.speaker === second.speaker &&
+          second.start - first.end <= config.maxMergeGap &&
+          merged.text.length <= capacity &&
+          merged.text.length / (merged.end - merged.start) <= config.maxCharsPerSecond;
+
+        if (canMerge) {
+          const position = Math.min(i, neighborIndex);
+          result.splice(position, 2, merged);
+          stats.merged++;
+          i = position - 1; // Reavaliar a legenda unida
+          break;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private isTooShort(segment: TranslatedSegment, config: Required<ReflowOptions>): boolean {
+    const duration = segment.end - segment.start;
+    return duration < config.minDuration || segment.text.length / Math.max(duration, 0.001) > config.maxCharsPerSecond;
+  }
+
+  /**
+   * Posição para dividir um texto longo: fim de frase, depois de oração, depois espaço,
+   * sem deixar a primeira parte com menos de 40% da capacidade
+   */
+  private punctuationBreak(text: string, capacity: number): number {
+    const minimum = Math.floor(capacity * 0.4);
+    let clauseBreak: number | null = null;
+    let spaceBreak: number | null = null;
+
+    for (let position = Math.min(capacity, text.length - 1); position >= minimum; position--) {
+      if (text[position] !== ' ') {
+        continue;
+      }
+
+      const before = text.substring(0, position);
+      if (SENTENCE_END.test(before)) {
+        return position;
+      }
+      if (clauseBreak === null && CLAUSE_END.test(before)) {
+        clauseBreak = position;
+      }
+      if (spaceBreak === null) {
+        spaceBreak = position;
+      }
+    }
+
+    return clauseBreak ?? spaceBreak ?? capacity;
+  }
+
+  /**
+   * Espaço mais próximo do alvo em que as duas partes cabem na linha;
+   * quebras após pontuação ganham vantagem
+   */
+  private bestBreak(text: string, maxCharsPerLine: number, target: number): number | null {
+    let best: number | null = null;
+    let bestScore = Infinity;
+
+    for (let position = 1; position < text.length; position++) {
+      if (text[position] !== ' ') {
+        continue;
+      }
+
+      const first = position;
+      const second = text.length - position - 1;
+      if (first > maxCharsPerLine || (target === text.length / 2 && second > maxCharsPerLine)) {
+        continue;
+      }
+
+      const before = text.substring(0, position);
+      const bonus = SENTENCE_END.test(before) || CLAUSE_END.test(before) ? maxCharsPerLine / 4 : 0;
+      const score = Math.abs(position - target) - bonus;
+
+      if (score < bestScore) {
+        bestScore = score;
+        best = position;
+      }
+    }
+
+    return best;
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,360 @@
+import fs from 'fs';
+import path from 'path';
+import { setField } from '../utils/objects';
+import { SUBTITLE_ALIGNMENTS, SubtitleAlignment, SubtitleStyle } from './video.service';
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  description?: string;
+  style: Partial<SubtitleStyle>;  // Aplicado sobre o preset "default"
+  builtIn: boolean;               // Preset de fábrica (pode ser sobrescrito, volta ao original ao remover)
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface StylePresetInput {
+  id?: string;
+  name: string;
+  description?: string;
+  style: Partial<SubtitleStyle>;
+}
+
+// Estilo base: o mesmo usado antes de os estilos serem configuráveis
+const BASE_STYLE: SubtitleStyle = {
+  fontName: 'Arial',
+  fontSize: 20,
+  fontColor: '#ffffff',
+  backgroundColor: '#000000cc',
+  borderWidth: 1,
+  borderColor: '#000000',
+  marginVertical: 50,
+  marginHorizontal: 20,
+  alignment: 'bottom-center',
+  bold: false,
+  italic: false,
+  shadow: 0,
+  box: false
+};
+
+const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: 'default',
+    name: 'Padrão',
+    description: 'Texto branco com contorno preto, centralizado na parte inferior',
+    style: {},
+    builtIn: true
+  },
+  {
+    id: 'broadcast',
+    name: 'Broadcast',
+    description: 'Caixa semitransparente atrás do texto e margens de área segura',
+    style: { fontSize: 18, box: true, backgroundColor: '#000000', boxOpacity: 0.75, borderWidth: 2, marginVertical: 30, marginHorizontal: 40 },
+    builtIn: true
+  },
+  {
+    id: 'social-vertical',
+    name: 'Social vertical',
+    description: 'Texto grande em negrito, acima da área de botões dos apps de vídeo vertical',
+    style: { fontSize: 16, bold: true, borderWidth: 2, shadow: 1, marginVertical: 90, marginHorizontal: 30 },
+    builtIn: true
+  },
+  {
+    id: 'high-contrast',
+    name: 'Alto contraste',
+    description: 'Texto amarelo em caixa preta opaca, para acessibilidade',
+    style: { fontSize: 22, bold: true, fontColor: '#ffff00', box: true, backgroundColor: '#000000', boxOpacity: 1, borderWidth: 3 },
+    builtIn: true
+  }
+];
+
+const COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+// Nomes de fonte vão para o filtro do FFmpeg: só caracteres seguros
+const FONT_NAME_PATTERN = /^[\p{L}\p{N} ._-]{1,64}$/u;
+
+const NUMBER_FIELDS: Array<['fontSize' | 'borderWidth' | 'marginVertical' | 'marginHorizontal' | 'shadow' | 'boxOpacity', number, number]> = [
+  ['fontSize', 6, 200],
+  ['borderWidth', 0, 20],
+  ['marginVertical', 0, 2000],
+  ['marginHorizontal', 0, 2000],
+  ['shadow', 0, 20],
+  ['boxOpacity', 0, 1]
+];
+const COLOR_FIELDS: Array<'fontColor' | 'backgroundColor' | 'borderColor' | 'shadowColor'> = ['fontColor', 'backgroundColor', 'borderColor', 'shadowColor'];
+const BOOLEAN_FIELDS: Array<'bold' | 'italic' | 'box'> = ['bold', 'italic', 'box'];
+
+export const STYLE_FIELDS: Array<keyof SubtitleStyle> = [
+  'fontName',
+  'alignment',
+  ...NUMBER_FIELDS.map(([field]) => field),
+  ...COLOR_FIELDS,
+  ...BOOLEAN_FIELDS
+];
+
+/**
+ * Presets de estilo de legenda: os de fábrica mais os criados pela API, persistidos em JSON
+ */
+export class SubtitleStyleService {
+  private static instance?: SubtitleStyleService;
+
+  private readonly filePath: string;
+  private presets = new Map<string, StylePreset>();
+  private loaded = false;
+
+  constructor() {
+    this.filePath = process.env.SUBTITLE_STYLES_PATH || './data/subtitle-styles.json';
+  }
+
+  static getInstance(): SubtitleStyleService {
+    if (!SubtitleStyleService.instance) {
+      SubtitleStyleService.instance = new SubtitleStyleService();
+    }
+    return SubtitleStyleService.instance;
+  }
+
+  list(): StylePreset[] {
+    this.ensureLoaded();
+    const ids = new Set([...BUILT_IN_PRESETS.map(preset => preset.id), ...this.presets.keys()]);
+    return Array.from(ids).map(id => this.get(id)!);
+  }
+
+  get(id: string): StylePreset | undefined {
+    this.ensureLoaded();
+    return this.presets.get(id) || BUILT_IN_PRESETS.find(preset => preset.id === id);
+  }
+
+  has(id: string): boolean {
+    return this.get(id) !== undefined;
+  }
+
+  isBuiltIn(id: string): boolean {
+    return BUILT_IN_PRESETS.some(preset => preset.id === id);
+  }
+
+  create(input: StylePresetInput): StylePreset {
+    this.ensureLoaded();
+
+    const id = input.id || this.slugify(input.name);
+    if (this.has(id)) {
+      throw new Error(`Preset "${id}" já existe`);
+    }
+
+    const now = new Date().toISOString();
+    const preset: StylePreset = {
+      id,
+      name: input.name,
+      description: input.description,
+      style: input.style,
+      builtIn: false,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.presets.set(id, preset);
+    this.save();
+    console.log(`🎨 Preset de legenda criado: ${id}`);
+    return preset;
+  }
+
+  /**
+   * Atualiza um preset; nos de fábrica, grava uma versão sobrescrita
+   */
+  update(id: string, input: StylePresetInput): StylePreset | undefined {
+    const existing = this.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const now = new Date().toISOString();
+    const preset: StylePreset = {
+      ...existing,
+      name: input.name,
+      description: input.description,
+      style: input.style,
+      createdAt: existing.createdAt || now,
+      updatedAt: now
+    };
+
+    this.presets.set(id, preset);
+    this.save();
+    console.log(`🎨 Preset de legenda atualizado: ${id}`);
+    return preset;
+  }
+
+  /**
+   * Remove um preset criado pela API; nos de fábrica, descarta apenas a versão sobrescrita
+   */
+  delete(id: string): boolean {
+    this.ensureLoaded();
+
+    const removed = this.presets.delete(id);
+    if (removed) {
+      this.save();
+      console.log(`🗑️ Preset de legenda removido: ${id}`);
+    }
+    return removed;
+  }
+
+  /**
+   * Estilo final: base, preset "default", preset pedido e campos da requisição, nessa ordem
+   */
+  resolve(presetId: string = 'default', overrides: Partial<SubtitleStyle> = {}): SubtitleStyle {
+    const preset = this.get(presetId);
+    if (!preset) {
+      throw new Error(`Preset de legenda "${presetId}" não existe`);
+    }
+
+    return {
+      ...BASE_STYLE,
+      ...this.get('default')!.style,
+      ...preset.style,
+      ...overrides
+    };
+  }
+
+  /**
+   * Estilo do texto original nas legendas bilíngues: o principal, 75% do tamanho e em itálico
+   */
+  resolveOriginal(mainStyle: SubtitleStyle, overrides: Partial<SubtitleStyle> = {}): SubtitleStyle {
+    return {
+      ...mainStyle,
+      fontSize: Math.round(mainStyle.fontSize * 0.75),
+      italic: true,
+      ...overrides
+    };
+  }
+
+  /**
+   * Valida o corpo de criação/atualização de preset. Retorna uma mensagem de erro se for inválido.
+   */
+  validatePreset(body: any): StylePresetInput | string {
+    if (!body || typeof body.name !== 'string' || body.name.trim() === '') {
+      return 'Campo "name" é obrigatório';
+    }
+
+    if (body.id !== undefined && (typeof body.id !== 'string' || !/^[a-z0-9][a-z0-9_-]*$/.test(body.id))) {
+      return 'Campo "id" deve conter apenas letras minúsculas, números, "-" e "_"';
+    }
+
+    const style = this.validateStyle(body.style ?? {});
+    if (typeof style === 'string') {
+      return style;
+    }
+
+    return {
+      id: body.id,
+      name: body.name.trim(),
+      description: typeof body.description === 'string' ? body.description : undefined,
+      style
+    };
+  }
+
+  /**
+   * Valida campos de estilo (parciais). Aceita números e booleanos como texto,
+   * já que chegam por multipart. Retorna uma mensagem de erro se algum for inválido.
+   */
+  validateStyle(input: any): Partial<SubtitleStyle> | string {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      return 'Estilo deve ser um objeto com campos de SubtitleStyle';
+    }
+
+    const unknown = Object.keys(input).filter(key => !STYLE_FIELDS.includes(key as keyof SubtitleStyle));
+    if (unknown.length > 0) {
+      return `Campos de estilo desconhecidos: ${unknown.join(', ')} (aceitos: ${STYLE_FIELDS.join(', ')})`;
+    }
+
+    const style: Partial<SubtitleStyle> = {};
+
+    if (input.fontName !== undefined) {
+      if (typeof input.fontName !== 'string' || !FONT_NAME_PATTERN.test(input.fontName.trim())) {
+        return 'Campo "fontName" deve ter até 64 letras, números, espaços, ".", "_" ou "-"';
+      }
+      style.fontName = input.fontName.trim();
+    }
+
+    if (input.alignment !== undefined) {
+      if (!SUBTITLE_ALIGNMENTS.includes(input.alignment)) {
+        return `Campo "alignment" deve ser um de: ${SUBTITLE_ALIGNMENTS.join(', ')}`;
+      }
+      style.alignment = input.alignment as SubtitleAlignment;
+    }
+
+    for (const [field, min, max] of NUMBER_FIELDS) {
+      if (input[field] === undefined) {
+        continue;
+      }
+      const value = typeof input[field] === 'number' ? input[field] : parseFloat(input[field]);
+      if (isNaN(value) || value < min || value > max) {
+        return `Campo "${field}" deve ser um número entre ${min} e ${max}`;
+      }
+      setField(style, field, value);
+    }
+
+    for (const field of COLOR_FIELDS) {
+      if (input[field] === undefined) {
+        continue;
+      }
+      if (typeof input[field] !== 'string' || !COLOR_PATTERN.test(input[field])) {
+        return `Campo "${field}" deve ser uma cor hexadecimal (#rgb, #rrggbb ou #rrggbbaa)`;
+      }
+      setField(style, field, input[field].startsWith('#') ? input[field] : `#${input[field]}`);
+    }
+
+    for (const field of BOOLEAN_FIELDS) {
+      if (input[field] === undefined) {
+        continue;
+      }
+      if (![true, false, 'true', 'false'].includes(input[field])) {
+        return `Campo "${field}" deve ser true ou false`;
+      }
+      setField(style, field, input[field] === true || input[field] === 'true');
+    }
+
+    return style;
+  }
+
+  private slugify(name: string): string {
+    const base = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'style';
+
+    let id = base;
+    for (let suffix = 2; this.has(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const presets: StylePreset[] = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+      presets.forEach(preset => this.presets.set(preset.id, preset));
+      console.log(`🎨 ${this.presets.size} presets de legenda carregados`);
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao carregar presets de legenda: ${error.message}`);
+    }
+  }
+
+  private save(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(Array.from(this.presets.values()), null, 2), 'utf8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,383 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface TranslationMemoryEntry {
+  key: string;
+  sourceText: string;
+  translatedText: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  provider: string;
+  model?: string;
+  variant?: string;   // Impressão digital das regras de glossário aplicadas
+  createdAt: string;
+  lastUsedAt: string;
+  hits: number;
+}
+
+export interface TranslationMemoryStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  writes: number;
+  evictions: number;
+  expired: number;
+  maxEntries: number;
+  ttlDays: number;
+  filePath: string;
+}
+
+export interface TranslationMemoryQuery {
+  search?: string;
+  provider?: string;
+  targetLanguage?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Memória de tradução persistida em JSONL (uma entrada por linha, só acrescentando).
+ * O arquivo é compactado quando acumula linhas obsoletas.
+ */
+export class TranslationMemoryService {
+  private static instance?: TranslationMemoryService;
+
+  private readonly filePath: string;
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly entries = new Map<string, TranslationMemoryEntry>(); // Ordem do Map = LRU
+  private loaded = false;
+  private staleLines = 0;
+  private stats = { hits: 0, misses: 0, writes: 0, evictions: 0, expired: 0 };
+
+  constructor() {
+    this.filePath = process.env.TRANSLATION_MEMORY_PATH || './data/translation-memory.jsonl';
+    this.maxEntries = parseInt(process.env.TRANSLATION_MEMORY_MAX_ENTRIES || '50000', 10);
+    this.ttlMs = parseFloat(process.env.TRANSLATION_MEMORY_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * Instância compartilhada entre os serviços, para que todos usem o mesmo arquivo
+   */
+  static getInstance(): TranslationMemoryService {
+    if (!TranslationMemoryService.instance) {
+      TranslationMemoryService.instance = new TranslationMemoryService();
+    }
+    return TranslationMemoryService.instance;
+  }
+
+  /**
+   * Normaliza o texto de origem: Unicode NFC e espaços colapsados
+   */
+  normalize(text: string): string {
+    return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+  }
+
+  buildKey(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    provider: string,
+    model?: string,
+    variant?: string
+  ): string {
+    return [provider, model || '', variant || '', sourceLanguage, targetLanguage, this.normalize(text)].join('␟');
+  }
+
+  get(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    provider: string,
+    model?: string,
+    variant?: string
+  ): TranslationMemoryEntry | null {
+    this.ensureLoaded();
+
+    const key = this.buildKey(text, sourceLanguage, targetLanguage, provider, model, variant);
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      this.stats.misses++;
+      return null;
+    }
+
+    if (this.isExpired(entry)) {
+      this.entries.delete(key);
+      this.staleLines++;
+      this.stats.expired++;
+      this.stats.misses++;
+      return null;
+    }
+
+    // Mover para o fim do Map (mais recente)
+    entry.hits++;
+    entry.lastUsedAt = new Date().toISOString();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.stats.hits++;
+
+    // Regrava a linha com o novo contador: a última linha de cada chave prevalece e mantém a ordem LRU ao recarregar
+    this.staleLines++;
+    this.appendLine(entry);
+    this.compactIfNeeded();
+
+    return entry;
+  }
+
+  set(
+    text: string,
+    translatedText: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    provider: string,
+    model?: string,
+    variant?: string
+  ): void {
+    this.ensureLoaded();
+
+    const now = new Date().toISOString();
+
+    this.store({
+      key: this.buildKey(text, sourceLanguage, targetLanguage, provider, model, variant),
+      sourceText: this.normalize(text),
+      translatedText,
+      sourceLanguage,
+      targetLanguage,
+      provider,
+      model,
+      variant,
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 0
+    });
+  }
+
+  getStats(): TranslationMemoryStats {
+    this.ensureLoaded();
+
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      entries: this.entries.size,
+      ...this.stats,
+      hitRate: lookups > 0 ? parseFloat((this.stats.hits / lookups).toFixed(4)) : 0,
+      maxEntries: this.maxEntries,
+      ttlDays: this.ttlMs / (24 * 60 * 60 * 1000),
+      filePath: this.filePath
+    };
+  }
+
+  list(query: TranslationMemoryQuery = {}): { total: number; entries: TranslationMemoryEntry[] } {
+    const filtered = this.filter(query);
+    const offset = Math.max(0, query.offset || 0);
+    const limit = Math.max(1, Math.min(query.limit || 100, 1000));
+
+    return {
+      total: filtered.length,
+      entries: filtered.slice(offset, offset + limit)
+    };
+  }
+
+  /**
+   * Exporta as entradas válidas em JSONL
+   */
+  export(): string {
+    this.ensureLoaded();
+    return Array.from(this.entries.values())
+      .filter(entry => !this.isExpired(entry))
+      .map(entry => JSON.stringify(entry))
+      .join('\n');
+  }
+
+  /**
+   * Importa entradas (de um export ou editadas à mão); entradas inválidas ou já expiradas são ignoradas.
+   * Datas e contador de usos do arquivo importado são mantidos; se faltarem, valem como entrada nova.
+   */
+  import(items: any[]): { imported: number; skipped: number } {
+    this.ensureLoaded();
+
+    let imported = 0;
+    let skipped = 0;
+
+    for (const item of items) {
+      const valid = item && typeof item.sourceText === 'string' && typeof item.translatedText === 'string' &&
+        typeof item.sourceLanguage === 'string' && typeof item.targetLanguage === 'string' &&
+        typeof item.provider === 'string';
+
+      if (!valid) {
+        skipped++;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const createdAt = this.parseDate(item.createdAt) || now;
+      const entry: TranslationMemoryEntry = {
+        key: this.buildKey(item.sourceText, item.sourceLanguage, item.targetLanguage, item.provider, item.model, item.variant),
+        sourceText: this.normalize(item.sourceText),
+        translatedText: item.translatedText,
+        sourceLanguage: item.sourceLanguage,
+        targetLanguage: item.targetLanguage,
+        provider: item.provider,
+        model: item.model,
+        variant: item.variant,
+        createdAt,
+        lastUsedAt: this.parseDate(item.lastUsedAt) || createdAt,
+        hits: Number.isInteger(item.hits) && item.hits > 0 ? item.hits : 0
+      };
+
+      if (this.isExpired(entry)) {
+        skipped++;
+        continue;
+      }
+
+      this.store(entry);
+      imported++;
+    }
+
+    console.log(`📥 Memória de tradução: ${imported} entradas importadas, ${skipped} ignoradas`);
+    return { imported, skipped };
+  }
+
+  /**
+   * Remove todas as entradas ou apenas as que combinam com o filtro
+   */
+  clear(query: TranslationMemoryQuery = {}): number {
+    this.ensureLoaded();
+
+    const hasFilter = query.search || query.provider || query.targetLanguage;
+    const toRemove = hasFilter ? this.filter(query) : Array.from(this.entries.values());
+
+    toRemove.forEach(entry => this.entries.delete(entry.key));
+    if (!hasFilter) {
+      this.stats = { hits: 0, misses: 0, writes: 0, evictions: 0, expired: 0 };
+    }
+
+    this.rewriteFile();
+    console.log(`🧹 Memória de tradução: ${toRemove.length} entradas removidas`);
+    return toRemove.length;
+  }
+
+  private filter(query: TranslationMemoryQuery): TranslationMemoryEntry[] {
+    this.ensureLoaded();
+    const search = query.search?.toLowerCase();
+
+    return Array.from(this.entries.values()).filter(entry =>
+      !this.isExpired(entry) &&
+      (!query.provider || entry.provider === query.provider) &&
+      (!query.targetLanguage || entry.targetLanguage === query.targetLanguage) &&
+      (!search || entry.sourceText.toLowerCase().includes(search) || entry.translatedText.toLowerCase().includes(search))
+    );
+  }
+
+  /**
+   * Grava a entrada no fim do Map e do arquivo, substituindo a anterior da mesma chave
+   */
+  private store(entry: TranslationMemoryEntry): void {
+    if (this.entries.has(entry.key)) {
+      this.entries.delete(entry.key);
+      this.staleLines++;
+    }
+
+    this.entries.set(entry.key, entry);
+    this.stats.writes++;
+    this.appendLine(entry);
+    this.evictOverflow();
+    this.compactIfNeeded();
+  }
+
+  private parseDate(value: any): string | undefined {
+    if (typeof value !== 'string' || isNaN(new Date(value).getTime())) {
+      return undefined;
+    }
+    return new Date(value).toISOString();
+  }
+
+  private isExpired(entry: TranslationMemoryEntry): boolean {
+    return this.ttlMs > 0 && Date.now() - new Date(entry.createdAt).getTime() > this.ttlMs;
+  }
+
+  /**
+   * Carrega o arquivo na primeira utilização; a última linha de cada chave prevalece
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim() !== '');
+
+      for (const line of lines) {
+        try {
+          const entry: TranslationMemoryEntry = JSON.parse(line);
+          if (this.entries.has(entry.key)) {
+            this.entries.delete(entry.key);
+          }
+          if (!this.isExpired(entry)) {
+            this.entries.set(entry.key, entry);
+          }
+        } catch {
+          // Linha corrompida (ex.: escrita interrompida) é descartada na próxima compactação
+        }
+      }
+
+      this.staleLines = lines.length - this.entries.size;
+      this.evictOverflow();
+      this.compactIfNeeded();
+      console.log(`📚 Memória de tradução carregada: ${this.entries.size} entradas`);
+
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao carregar memória de tradução: ${error.message}`);
+    }
+  }
+
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.staleLines++;
+      this.stats.evictions++;
+    }
+  }
+
+  private compactIfNeeded(): void {
+    if (this.staleLines > Math.max(1000, this.entries.size)) {
+      this.rewriteFile();
+    }
+  }
+
+  private appendLine(entry: TranslationMemoryEntry): void {
+    try {
+      this.ensureDirectory();
+      fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao gravar memória de tradução: ${error.message}`);
+    }
+  }
+
+  private rewriteFile(): void {
+    try {
+      this.ensureDirectory();
+      const tempPath = `${this.filePath}.tmp`;
+      const content = Array.from(this.entries.values()).map(entry => JSON.stringify(entry)).join('\n');
+      fs.writeFileSync(tempPath, content ? content + '\n' : '', 'utf8');
+      fs.renameSync(tempPath, this.filePath);
+      this.staleLines = 0;
+    } catch (error: any) {
+      console.warn(`⚠️ Erro ao compactar memória de tradução: ${error.message}`);
+    }
+  }
+
+  private ensureDirectory(): void {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+}
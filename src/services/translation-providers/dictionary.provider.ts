@@ -0,0 +1,116 @@
+import { ProviderModel, TranslationProvider } from './translation-provider';
+
+/**
+ * Provedor de dicionário local: sempre responde, por isso fecha a cadeia padrão
+ */
+export class DictionaryProvider implements TranslationProvider {
+  readonly id = 'dictionary';
+  readonly name = 'Dictionary Fallback';
+  readonly description = 'Sistema de tradução básico usando dicionário local';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    return [{
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      available: true
+    }];
+  }
+
+  /**
+   * Tradução usando dicionário básico (fallback)
+   */
+  async translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string
+  ): Promise<string> {
+    console.log(`📚 Usando tradução por dicionário para: ${targetLanguage}`);
+
+    const translations: { [key: string]: { [key: string]: string } } = {
+      'pt': {
+        'hello': 'olá',
+        'this': 'este',
+        'is': 'é',
+        'a': 'um',
+        'sample': 'exemplo',
+        'transcription': 'transcrição',
+        'second': 'segunda',
+        'part': 'parte',
+        'audio': 'áudio',
+        'final': 'final',
+        'segment': 'segmento',
+        'thank': 'obrigado',
+        'you': 'você',
+        'for': 'por',
+        'listening': 'ouvir',
+        'and': 'e',
+        'of': 'de',
+        'the': 'o'
+      },
+      'es': {
+        'hello': 'hola',
+        'this': 'este',
+        'is': 'es',
+        'a': 'un',
+        'sample': 'ejemplo',
+        'transcription': 'transcripción',
+        'second': 'segunda',
+        'part': 'parte',
+        'audio': 'audio',
+        'final': 'final',
+        'segment': 'segmento',
+        'thank': 'gracias',
+        'you': 'tú',
+        'for': 'por',
+        'listening': 'escuchar',
+        'and': 'y',
+        'of': 'de',
+        'the': 'el'
+      },
+      'fr': {
+        'hello': 'bonjour',
+        'this': 'ce',
+        'is': 'est',
+        'a': 'un',
+        'sample': 'exemple',
+        'transcription': 'transcription',
+        'second': 'deuxième',
+        'part': 'partie',
+        'audio': 'audio',
+        'final': 'final',
+        'segment': 'segment',
+        'thank': 'merci',
+        'you': 'vous',
+        'for': 'pour',
+        'listening': 'écouter',
+        'and': 'et',
+        'of': 'de',
+        'the': 'le'
+      }
+    };
+
+    const dictionary = translations[targetLanguage];
+    if (!dictionary) {
+      console.warn(`⚠️ Dicionário não disponível para ${targetLanguage}, retornando texto original`);
+      return text;
+    }
+
+    // Tradução palavra por palavra (básica)
+    const words = text.toLowerCase().split(/\s+/);
+    const translatedWords = words.map(word => {
+      const cleanWord = word.replace(/[^\w]/g, '');
+      return dictionary[cleanWord] || word;
+    });
+
+    const result = translatedWords.join(' ');
+    console.log(`📝 Tradução dicionário: "${text}" -> "${result}"`);
+    
+    return result;
+  }
+}
@@ -0,0 +1,69 @@
+import axios from 'axios';
+import { GlossaryRule } from '../glossary.service';
+import { ProviderModel, TranslationProvider } from './translation-provider';
+
+/**
+ * Provedor Google Translate (endpoint público, sem chave)
+ */
+export class GoogleProvider implements TranslationProvider {
+  readonly id = 'google';
+  readonly name = 'Google Translate';
+  readonly description = 'Serviço de tradução do Google';
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async listModels(): Promise<ProviderModel[]> {
+    return [{
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      available: true
+    }];
+  }
+
+  /**
+   * Tradução usando Google Translate (API não oficial)
+   */
+  async translate(
+    text: string, 
+    sourceLanguage: string, 
+    targetLanguage: string,
+    model?: string,
+    glossary?: GlossaryRule[],
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    try {
+      // Usando API pública do Google Translate
+      const url = 'https://translate.googleapis.com/translate_a/single';
+      const params = {
+        client: 'gtx',
+        sl: sourceLanguage, // O Google aceita "auto" e detecta o idioma
+        tl: targetLanguage,
+        dt: 't',
+        q: text
+      };
+
+      const response = await axios.get(url, { 
+        params, 
+        timeout: 5000,
+        signal,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; TranslationBot/1.0)'
+        }
+      });
+
+      if (response.data && response.data[0] && response.data[0][0]) {
+        const translatedText = response.data[0][0][0];
+        console.log(`✅ Google Translate: "${text}" -> "${translatedText}"`);
+        return translatedText;
+      }
+
+      return null;
+    } catch (error: any) {
+      console.error('❌ Erro no Google Translate:', error.message || error);
+      throw error;
+    }
+  }
+}
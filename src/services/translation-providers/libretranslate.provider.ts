@@ -0,0 +1,77 @@
+import axios from 'axios';
+import { GlossaryRule } from '../glossary.service';
+import { ProviderModel, TranslationProvider } from './translation-provider';
+
+/**
+ * Provedor para servidores compatíveis com a API HTTP do LibreTranslate
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly id = 'libretranslate';
+  readonly name = 'LibreTranslate';
+  readonly description = 'Servidor LibreTranslate (ou compatível) configurado em LIBRETRANSLATE_URL';
+
+  private readonly baseUrl?: string;
+  private readonly apiKey?: string;
+
+  constructor() {
+    this.baseUrl = process.env.LIBRETRANSLATE_URL?.replace(/\/+$/, '');
+    this.apiKey = process.env.LIBRETRANSLATE_API_KEY;
+  }
+
+  async isAvailable(signal?: AbortSignal): Promise<boolean> {
+    if (!this.baseUrl) {
+      return false;
+    }
+
+    try {
+      await axios.get(`${this.baseUrl}/languages`, { timeout: 3000, signal });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async listModels(signal?: AbortSignal): Promise<ProviderModel[]> {
+    return [{
+      id: this.id,
+      name: this.name,
+      description: this.description,
+      available: await this.isAvailable(signal)
+    }];
+  }
+
+  async translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string,
+    glossary?: GlossaryRule[],
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    if (!this.baseUrl) {
+      console.warn('⚠️ LIBRETRANSLATE_URL não configurado');
+      return null;
+    }
+
+    try {
+      const response = await axios.post(`${this.baseUrl}/translate`, {
+        q: text,
+        source: sourceLanguage,
+        target: targetLanguage,
+        format: 'text',
+        api_key: this.apiKey
+      }, { timeout: 10000, signal });
+
+      const translatedText = response.data?.translatedText;
+      if (typeof translatedText === 'string' && translatedText.trim() !== '') {
+        console.log(`✅ LibreTranslate: "${text}" -> "${translatedText}"`);
+        return translatedText;
+      }
+
+      return null;
+    } catch (error: any) {
+      console.error('❌ Erro no LibreTranslate:', error.message || error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,280 @@
+import { Ollama } from 'ollama';
+import { getLanguageName } from '../../utils/languages';
+import { GlossaryRule } from '../glossary.service';
+import { ProviderModel, TranslationProvider } from './translation-provider';
+
+/**
+ * Provedor Ollama (LLM local), o único com tradução em lote com contexto
+ */
+export class OllamaProvider implements TranslationProvider {
+  readonly id = 'ollama';
+  readonly name = 'Ollama';
+  readonly description = 'Modelos de IA locais servidos pelo Ollama';
+  readonly defaultModel: string;
+  readonly supportsGlossary = true;
+
+  private ollama: Ollama;
+  private readonly host: string;
+
+  constructor() {
+    // Configurar Ollama para o servidor correto
+    this.host = process.env.OLLAMA_HOST || 'http://caucaia.saudehd.com.br:11434';
+    this.ollama = new Ollama({ 
+      host: this.host 
+    });
+    this.defaultModel = process.env.OLLAMA_MODEL || 'llama3.1:8b';
+  }
+
+  private readonly supportedModels = {
+    'llama3.1:8b': {
+      name: 'Llama 3.1 8B',
+      description: 'Modelo rápido e eficiente para traduções gerais',
+      temperature: 0.3,
+      top_p: 0.9
+    },
+    'llama3.1:70b': {
+      name: 'Llama 3.1 70B',
+      description: 'Modelo mais poderoso para traduções complexas',
+      temperature: 0.2,
+      top_p: 0.8
+    },
+    'llama3.2:3b': {
+      name: 'Llama 3.2 3B',
+      description: 'Modelo compacto e rápido',
+      temperature: 0.4,
+      top_p: 0.9
+    },
+    'qwen2.5:7b': {
+      name: 'Qwen 2.5 7B',
+      description: 'Modelo Qwen especializado em múltiplas linguagens',
+      temperature: 0.3,
+      top_p: 0.9
+    }
+  };
+  
+  async isAvailable(signal?: AbortSignal): Promise<boolean> {
+    try {
+      await this.client(signal).list();
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Modelos suportados, marcando quais estão instalados no servidor Ollama
+   */
+  async listModels(signal?: AbortSignal): Promise<ProviderModel[]> {
+    let installed: string[] = [];
+    try {
+      const models = await this.client(signal).list();
+      installed = models.models.map(model => model.name);
+    } catch (error) {
+      console.warn('⚠️ Erro ao obter modelos Ollama, marcando todos como indisponíveis');
+    }
+
+    return Object.entries(this.supportedModels).map(([id, config]) => ({
+      id,
+      name: config.name,
+      description: config.description,
+      available: installed.some(name => name.startsWith(id))
+    }));
+  }
+
+  isSupportedModel(model: string): boolean {
+    return model in this.supportedModels;
+  }
+
+  /**
+   * Tradução usando Ollama (modelo local de IA)
+   */
+  async translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    model: string = this.defaultModel,
+    glossary: GlossaryRule[] = [],
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    try {
+      if (!text || text.trim() === '') {
+        return '';
+      }
+
+      const sourceLang = getLanguageName(sourceLanguage);
+      const targetLang = getLanguageName(targetLanguage);
+      const modelConfig = this.supportedModels[model as keyof typeof this.supportedModels];
+
+      console.log(`🤖 Traduzindo com Ollama: ${sourceLang} -> ${targetLang} (${model})`);
+
+      const prompt = `You are a professional translator. Translate the following text from ${sourceLang} to ${targetLang}.
+
+IMPORTANT INSTRUCTIONS:
+- Only return the translated text, nothing else
+- Maintain the original formatting and punctuation
+- Keep technical terms when appropriate
+- Preserve proper nouns unless they have standard translations
+- Ensure natural and fluent translation in the target language
+- Do not add explanations or comments
+${this.buildGlossaryInstructions(glossary)}
+Text to translate:
+"${text}"`;
+
+      const response = await this.client(signal).generate({
+        model,
+        prompt,
+        stream: false,
+        options: {
+          temperature: modelConfig?.temperature || 0.3,
+          top_p: modelConfig?.top_p || 0.9,
+          num_predict: -1
+        }
+      });
+
+      const translatedText = response.response.trim();
+      
+      if (translatedText && translatedText !== text) {
+        console.log(`✅ Ollama traduziu: "${text}" -> "${translatedText}"`);
+        return translatedText;
+      }
+
+      return null;
+
+    } catch (error: any) {
+      console.error('❌ Erro na tradução com Ollama:', error);
+      
+      // Se for erro de conexão, é possível que o Ollama não esteja rodando
+      if (error.code === 'ECONNREFUSED' || error.message?.includes('connect')) {
+        console.warn('⚠️ Ollama não está acessível. Verifique se está rodando.');
+      }
+      
+      // Propaga para que a política de resiliência conte a falha
+      throw error;
+    }
+  }
+
+  /**
+   * Traduz um lote numerado de legendas em uma única chamada ao Ollama.
+   * Retorna null se a resposta não tiver exatamente os mesmos números, na mesma ordem.
+   */
+  async translateBatch(
+    batch: string[],
+    before: string[],
+    after: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    model: string = this.defaultModel,
+    glossary: GlossaryRule[] = [],
+    signal?: AbortSignal
+  ): Promise<string[] | null> {
+    try {
+      const sourceLang = getLanguageName(sourceLanguage);
+      const targetLang = getLanguageName(targetLanguage);
+      const modelConfig = this.supportedModels[model as keyof typeof this.supportedModels];
+
+      const numbered = batch.map((text, i) => `[${i + 1}] ${text.replace(/\s*\n\s*/g, ' ')}`).join('\n');
+      const previousContext = before.length > 0 ? before.join('\n') : '(start of video)';
+      const followingContext = after.length > 0 ? after.join('\n') : '(end of video)';
+
+      console.log(`🤖 Traduzindo lote com Ollama: ${sourceLang} -> ${targetLang} (${batch.length} segmentos, ${model})`);
+
+      const prompt = `You are a professional subtitle translator. Translate the numbered subtitles from ${sourceLang} to ${targetLang}.
+
+The subtitles are consecutive lines of the same video. A sentence may start in one subtitle and end in the next, so read them together before translating.
+
+IMPORTANT INSTRUCTIONS:
+- Return exactly ${batch.length} lines, one for each numbered subtitle, in the same order
+- Start each line with the subtitle number in brackets, e.g. [1]
+- Keep each translation aligned with the content of its own subtitle; do not merge or split subtitles
+- The context lines are only for understanding; do not translate or return them
+- Do not add explanations or comments
+${this.buildGlossaryInstructions(glossary)}
+Previous context:
+${previousContext}
+
+Subtitles to translate:
+${numbered}
+
+Following context:
+${followingContext}`;
+
+      const response = await this.client(signal).generate({
+        model,
+        prompt,
+        stream: false,
+        options: {
+          temperature: modelConfig?.temperature || 0.3,
+          top_p: modelConfig?.top_p || 0.9,
+          num_predict: -1
+        }
+      });
+
+      return this.parseNumberedTranslation(response.response, batch.length);
+
+    } catch (error: any) {
+      console.error('❌ Erro na tradução em lote com Ollama:', error.message || error);
+      throw error;
+    }
+  }
+
+  /**
+   * O cliente do Ollama não aceita signal por requisição sem streaming; com signal, um cliente
+   * próprio o repassa ao fetch para que o timeout da política cancele a geração no servidor
+   */
+  private client(signal?: AbortSignal): Ollama {
+    if (!signal) {
+      return this.ollama;
+    }
+    return new Ollama({
+      host: this.host,
+      fetch: (input, init) => fetch(input, { ...init, signal })
+    });
+  }
+
+  /**
+   * Seção do prompt com os termos obrigatórios e os que não devem ser traduzidos
+   */
+  private buildGlossaryInstructions(glossary: GlossaryRule[]): string {
+    const required = glossary.filter(rule => !rule.protected);
+    const protectedTerms = glossary.filter(rule => rule.protected);
+    let section = '';
+
+    if (required.length > 0) {
+      section += `\nGLOSSARY (always use these exact translations):\n${required.map(rule => `- "${rule.source}" -> "${rule.target}"`).join('\n')}\n`;
+    }
+    if (protectedTerms.length > 0) {
+      section += `\nDO NOT TRANSLATE (keep exactly as written):\n${protectedTerms.map(rule => `- ${rule.source}`).join('\n')}\n`;
+    }
+
+    return section;
+  }
+
+  /**
+   * Lê linhas "[n] texto" e confere quantidade e ordem
+   */
+  private parseNumberedTranslation(output: string, expected: number): string[] | null {
+    const lines = output
+      .split('\n')
+      .map(line => line.match(/^\s*\[(\d+)\]\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null);
+
+    if (lines.length !== expected) {
+      console.warn(`⚠️ Lote retornou ${lines.length} linhas numeradas, esperado ${expected}`);
+      return null;
+    }
+
+    const translations: string[] = [];
+    for (let i = 0; i < lines.length; i++) {
+      const number = parseInt(lines[i][1], 10);
+      const text = lines[i][2].trim().replace(/^"(.*)"$/, '$1');
+
+      if (number !== i + 1 || text === '') {
+        console.warn(`⚠️ Lote fora de ordem ou com linha vazia na posição ${i + 1}`);
+        return null;
+      }
+      translations.push(text);
+    }
+
+    return translations;
+  }
+}
@@ -0,0 +1,62 @@
+import { ResilienceOptions, ResiliencePolicy, ResilienceStatus } from '../../utils/resilience';
+import { TranslationProvider } from './translation-provider';
+
+/**
+ * Registro dos provedores de tradução, indexados pelo id.
+ * Provedores remotos recebem uma política de resiliência própria.
+ */
+export class TranslationProviderRegistry {
+  private readonly providers = new Map<string, TranslationProvider>();
+  private readonly policies = new Map<string, ResiliencePolicy>();
+
+  register(provider: TranslationProvider, resilience?: ResilienceOptions): void {
+    this.providers.set(provider.id, provider);
+    if (resilience) {
+      this.policies.set(provider.id, new ResiliencePolicy(provider.name, resilience));
+    }
+  }
+
+  /**
+   * Executa uma chamada ao provedor sob sua política (concorrência, timeout, retentativas e circuito)
+   */
+  execute<T>(id: string, operation: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+    const policy = this.policies.get(id);
+    return policy ? policy.execute(operation) : operation();
+  }
+
+  getStatus(id: string): ResilienceStatus | undefined {
+    return this.policies.get(id)?.getStatus();
+  }
+
+  isCircuitOpen(id: string): boolean {
+    return this.policies.get(id)?.isOpen() ?? false;
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  get(id: string): TranslationProvider {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Provedor de tradução desconhecido: ${id}`);
+    }
+    return provider;
+  }
+
+  list(): TranslationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Monta a cadeia de provedores: o escolhido primeiro, depois o fallback
+   * (ou a cadeia padrão sem o escolhido). Ids repetidos são ignorados.
+   */
+  resolveChain(defaultChain: string[], provider?: string, fallback?: string[]): TranslationProvider[] {
+    const ids = provider
+      ? [provider, ...(fallback ?? defaultChain.filter(id => id !== provider))]
+      : fallback ?? defaultChain;
+
+    return Array.from(new Set(ids)).map(id => this.get(id));
+  }
+}
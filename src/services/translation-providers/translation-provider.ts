@@ -0,0 +1,58 @@
+import { GlossaryRule } from '../glossary.service';
+
+export interface ProviderModel {
+  id: string;
+  name: string;
+  description: string;
+  available: boolean;
+}
+
+/**
+ * Contrato comum dos provedores de tradução registrados no TranslationService
+ */
+export interface TranslationProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly defaultModel?: string;
+
+  /**
+   * Provedores que recebem o glossário no prompt; os demais recebem o texto
+   * com os termos trocados por marcadores
+   */
+  readonly supportsGlossary?: boolean;
+
+  /**
+   * `signal` (em todos os métodos) é abortado pela política de resiliência quando a chamada excede o timeout
+   */
+  isAvailable(signal?: AbortSignal): Promise<boolean>;
+
+  listModels(signal?: AbortSignal): Promise<ProviderModel[]>;
+
+  /**
+   * Retorna null quando o provedor respondeu mas não traduziu; erros de comunicação
+   * são lançados para a política de resiliência. Em ambos os casos o próximo da cadeia é tentado.
+   */
+  translate(
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string,
+    glossary?: GlossaryRule[],
+    signal?: AbortSignal
+  ): Promise<string | null>;
+
+  /**
+   * Tradução de um lote numerado com contexto (apenas provedores baseados em LLM)
+   */
+  translateBatch?(
+    batch: string[],
+    before: string[],
+    after: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string,
+    glossary?: GlossaryRule[],
+    signal?: AbortSignal
+  ): Promise<string[] | null>;
+}
@@ -0,0 +1,186 @@
+export type QualityFlag =
+  | 'low_score'        // Retrotradução pouco parecida com o original
+  | 'length_ratio'     // Tradução muito mais curta ou longa que o original
+  | 'untranslated'     // Saída igual à entrada
+  | 'prompt_leak'      // Aspas ou explicações do modelo na saída
+  | 'number_mismatch'; // Números diferentes entre original e tradução
+
+export interface SegmentQuality {
+  score?: number;           // chrF entre original e retrotradução (0 a 1)
+  backTranslation?: string;
+  lengthRatio: number;
+  flags: QualityFlag[];
+}
+
+export interface QualitySummary {
+  averageScore?: number;
+  flaggedSegments: number;
+  flags: Partial<Record<QualityFlag, number>>;
+}
+
+const CJK_LANGUAGES = ['zh', 'ja', 'ko'];
+
+// Frases típicas de modelos que explicam em vez de só traduzir
+const PROMPT_LEAK_PATTERNS = [
+  /^\s*(here is|here's) (the|your) translat/i,
+  /^\s*(translation|translated text|tradução|traducción|traduction)\s*:/i,
+  /^\s*(aqui está|segue) a tradução/i,
+  /\b(note|nota|observação)\s*:/i,
+  /\(\s*(note|nota|translator'?s note)[^)]*\)/i,
+  /\b(I translated|I have translated|as an AI)\b/i
+];
+
+/**
+ * Estimativa de qualidade das traduções: chrF da retrotradução e heurísticas locais
+ */
+export class TranslationQualityService {
+  private readonly minScore: number;
+
+  constructor() {
+    this.minScore = parseFloat(process.env.TRANSLATION_QA_MIN_SCORE || '0.45');
+  }
+
+  assess(
+    original: string,
+    translated: string,
+    backTranslation: string | undefined,
+    sourceLanguage: string,
+    targetLanguage: string
+  ): SegmentQuality {
+    const flags: QualityFlag[] = [];
+    const lengthRatio = original.trim().length > 0
+      ? parseFloat((translated.trim().length / original.trim().length).toFixed(2))
+      : 1;
+
+    let score: number | undefined;
+    if (backTranslation !== undefined) {
+      score = parseFloat(this.chrF(backTranslation, original).toFixed(3));
+      if (score < this.minScore) {
+        flags.push('low_score');
+      }
+    }
+
+    // Idiomas CJK usam bem menos caracteres que os alfabéticos
+    const cjkPair = CJK_LANGUAGES.includes(sourceLanguage) !== CJK_LANGUAGES.includes(targetLanguage);
+    const [minRatio, maxRatio] = cjkPair ? [0.15, 6] : [0.5, 2];
+    if (original.trim().length >= 10 && (lengthRatio < minRatio || lengthRatio > maxRatio)) {
+      flags.push('length_ratio');
+    }
+
+    if (sourceLanguage !== targetLanguage && /\p{L}{3,}/u.test(original) &&
+        this.normalize(original) === this.normalize(translated)) {
+      flags.push('untranslated');
+    }
+
+    if (this.hasPromptLeak(original, translated)) {
+      flags.push('prompt_leak');
+    }
+
+    if (!this.sameNumbers(original, translated)) {
+      flags.push('number_mismatch');
+    }
+
+    return { score, backTranslation, lengthRatio, flags };
+  }
+
+  summarize(results: SegmentQuality[]): QualitySummary {
+    const scores = results.map(result => result.score).filter((score): score is number => score !== undefined);
+    const flags: Partial<Record<QualityFlag, number>> = {};
+
+    results.forEach(result => result.flags.forEach(flag => {
+      flags[flag] = (flags[flag] || 0) + 1;
+    }));
+
+    return {
+      averageScore: scores.length > 0
+        ? parseFloat((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(3))
+        : undefined,
+      flaggedSegments: results.filter(result => result.flags.length > 0).length,
+      flags
+    };
+  }
+
+  /**
+   * chrF (n-gramas de caracteres 1..6, beta = 2), ignorando espaços e maiúsculas
+   */
+  chrF(hypothesis: string, reference: string, maxOrder: number = 6, beta: number = 2): number {
+    const hyp = hypothesis.toLowerCase().replace(/\s+/g, '');
+    const ref = reference.toLowerCase().replace(/\s+/g, '');
+
+    if (hyp.length === 0 || ref.length === 0) {
+      return hyp === ref ? 1 : 0;
+    }
+
+    let precisionSum = 0;
+    let recallSum = 0;
+    let orders = 0;
+
+    for (let n = 1; n <= maxOrder; n++) {
+      const hypGrams = this.charNgrams(hyp, n);
+      const refGrams = this.charNgrams(ref, n);
+      const hypTotal = hyp.length - n + 1;
+      const refTotal = ref.length - n + 1;
+
+      if (hypTotal <= 0 || refTotal <= 0) {
+        break;
+      }
+
+      let matches = 0;
+      hypGrams.forEach((count, gram) => {
+        matches += Math.min(count, refGrams.get(gram) || 0);
+      });
+
+      precisionSum += matches / hypTotal;
+      recallSum += matches / refTotal;
+      orders++;
+    }
+
+    const precision = precisionSum / orders;
+    const recall = recallSum / orders;
+    if (precision === 0 && recall === 0) {
+      return 0;
+    }
+
+    const betaSquared = beta * beta;
+    return (1 + betaSquared) * precision * recall / (betaSquared * precision + recall);
+  }
+
+  private charNgrams(text: string, n: number): Map<string, number> {
+    const grams = new Map<string, number>();
+    const chars = Array.from(text);
+
+    for (let i = 0; i + n <= chars.length; i++) {
+      const gram = chars.slice(i, i + n).join('');
+      grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+
+    return grams;
+  }
+
+  private hasPromptLeak(original: string, translated: string): boolean {
+    const quoted = /^\s*["“«].*["”»]\s*$/s;
+    if (quoted.test(translated) && !quoted.test(original)) {
+      return true;
+    }
+
+    return PROMPT_LEAK_PATTERNS.some(pattern => pattern.test(translated) && !pattern.test(original));
+  }
+
+  /**
+   * Compara os números ignorando separadores de milhar e decimal (1.000 = 1,000; 3,5 = 3.5)
+   */
+  private sameNumbers(original: string, translated: string): boolean {
+    const extract = (text: string) => (text
+      .replace(/(\d)[.,\s](?=\d{3}\b)/g, '$1')
+      .match(/\d+/g) || [])
+      .sort();
+
+    const a = extract(original);
+    const b = extract(translated);
+    return a.length === b.length && a.every((value, index) => value === b[index]);
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  }
+}
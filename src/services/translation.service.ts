@@ -1,5 +1,17 @@
-import axios from 'axios';
-import { Ollama } from 'ollama';
+import { DictionaryProvider } from './translation-providers/dictionary.provider';
+import { GoogleProvider } from './translation-providers/google.provider';
+import { LibreTranslateProvider } from './translation-providers/libretranslate.provider';
+import { OllamaProvider } from './translation-providers/ollama.provider';
+import { TranslationProviderRegistry } from './translation-providers/provider-registry';
+import { ProviderModel, TranslationProvider } from './translation-providers/translation-provider';
+import { LanguageDetection } from './engines/transcription-engine';
+import { LanguageDetectorService } from './language-detector.service';
+import { GlossaryRule, GlossaryRules, GlossaryService, GlossaryViolation } from './glossary.service';
+import { TranslationMemoryService } from './translation-memory.service';
+import { QualitySummary, SegmentQuality, TranslationQualityService } from './translation-qa.service';
+import { TranscriptionSegment } from './whisper.service';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { ResilienceStatus, resilienceOptionsFromEnv } from '../utils/resilience';
 
 export interface TranslationSegment {
   start: number;
@@ -20,43 +32,90 @@ export interface TranslationOptions {
   model?: string;
 }
 
+export type SegmentTranslationMode = 'batch' | 'segment';
+
+export interface ProviderSelection {
+  provider?: string;   // Provedor preferido (ollama, google, libretranslate, dictionary)
+  model?: string;      // Modelo do provedor preferido
+  fallback?: string[]; // Provedores tentados em seguida, em ordem
+  useMemory?: boolean; // Consulta/grava a memória de tradução (padrão: true)
+  glossary?: GlossaryRules;
+}
+
+export interface ProviderTranslation {
+  text: string;
+  provider: string;
+  model?: string;
+  cached?: boolean;    // Veio da memória de tradução
+  glossaryViolations?: GlossaryViolation[];
+}
+
+/**
+ * Segmento da transcrição em um idioma de destino: o texto traduzido, o original,
+ * quem traduziu e, com QA, a avaliação por retrotradução
+ */
+export interface TranslatedTranscriptionSegment extends TranscriptionSegment {
+  originalText?: string;
+  translationProvider?: string;
+  translationModel?: string;
+  translationCached?: boolean;
+  glossaryViolations?: GlossaryViolation[];
+  qa?: SegmentQuality;
+}
+
+export interface SegmentBatchOptions extends ProviderSelection {
+  mode?: SegmentTranslationMode;
+  windowSize?: number;   // Segmentos traduzidos por chamada
+  contextSize?: number;  // Vizinhos enviados antes/depois apenas como contexto
+}
+
+export interface QualityReport {
+  segments: SegmentQuality[];
+  summary: QualitySummary;
+}
+
+export interface ProviderCatalogEntry {
+  id: string;
+  name: string;
+  description: string;
+  available: boolean;
+  defaultModel?: string;
+  supportsBatch: boolean;
+  models: ProviderModel[];
+  circuit?: ResilienceStatus;
+}
+
 export class TranslationService {
-  private ollama: Ollama;
+  private readonly registry: TranslationProviderRegistry;
+  private readonly memory: TranslationMemoryService;
+  private readonly glossary: GlossaryService;
+  private readonly quality: TranslationQualityService;
+  private readonly detector: LanguageDetectorService;
+  private readonly minDetectionConfidence: number;
+  private readonly defaultChain: string[];
+  private readonly batchConcurrency: number;
+  private readonly segmentConcurrency: number;
   
   constructor() {
-    // Configurar Ollama para o servidor correto
-    this.ollama = new Ollama({ 
-      host: process.env.OLLAMA_HOST || 'http://caucaia.saudehd.com.br:11434' 
-    });
+    this.registry = new TranslationProviderRegistry();
+    this.registry.register(new OllamaProvider(), resilienceOptionsFromEnv('OLLAMA', { maxConcurrency: 2, timeoutMs: 120000, retries: 1 }));
+    this.registry.register(new GoogleProvider(), resilienceOptionsFromEnv('GOOGLE', { maxConcurrency: 4, timeoutMs: 10000, retries: 2 }));
+    this.registry.register(new LibreTranslateProvider(), resilienceOptionsFromEnv('LIBRETRANSLATE', { maxConcurrency: 4, timeoutMs: 15000, retries: 2 }));
+    this.registry.register(new DictionaryProvider());
+    this.memory = TranslationMemoryService.getInstance();
+    this.glossary = GlossaryService.getInstance();
+    this.quality = new TranslationQualityService();
+    this.detector = new LanguageDetectorService();
+    this.minDetectionConfidence = parseFloat(process.env.LANGUAGE_DETECTION_MIN_CONFIDENCE || '0.5');
+
+    this.defaultChain = (process.env.TRANSLATION_PROVIDERS || 'ollama,google,dictionary')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => this.registry.has(id));
+    this.batchConcurrency = parseInt(process.env.TRANSLATION_BATCH_CONCURRENCY || '1', 10);
+    this.segmentConcurrency = parseInt(process.env.TRANSLATION_SEGMENT_CONCURRENCY || '4', 10);
   }
 
-  private readonly supportedModels = {
-    'llama3.1:8b': {
-      name: 'Llama 3.1 8B',
-      description: 'Modelo rápido e eficiente para traduções gerais',
-      temperature: 0.3,
-      top_p: 0.9
-    },
-    'llama3.1:70b': {
-      name: 'Llama 3.1 70B',
-      description: 'Modelo mais poderoso para traduções complexas',
-      temperature: 0.2,
-      top_p: 0.8
-    },
-    'llama3.2:3b': {
-      name: 'Llama 3.2 3B',
-      description: 'Modelo compacto e rápido',
-      temperature: 0.4,
-      top_p: 0.9
-    },
-    'qwen2.5:7b': {
-      name: 'Qwen 2.5 7B',
-      description: 'Modelo Qwen especializado em múltiplas linguagens',
-      temperature: 0.3,
-      top_p: 0.9
-    }
-  };
-  
   /**
    * Simula transcrição de áudio usando Whisper
    * Em produção, integraria com OpenAI Whisper ou similar
@@ -153,8 +212,8 @@ export class TranslationService {
       for (const segment of segments) {
         const translatedText = await this.translateText(
           segment.originalText, 
-          sourceLanguage, 
-          targetLanguage
+          targetLanguage,
+          sourceLanguage
         );
 
         translatedSegments.push({
@@ -180,253 +239,335 @@ export class TranslationService {
 
   /**
    * Traduz um texto individual
-   * Usa múltiplas estratégias de tradução: Ollama -> Google -> Dicionário
+   * Usa a cadeia de provedores (padrão: Ollama -> Google -> Dicionário)
    */
   async translateText(
     text: string, 
     targetLanguage: string,
     sourceLanguage: string = 'auto',
-    model: string = 'llama3.1:8b'
+    selection: ProviderSelection = {}
   ): Promise<string> {
-    
-    // Estratégia 1: Tentar Ollama (modelo local de IA)
-    try {
-      const translation = await this.translateWithOllama(text, sourceLanguage, targetLanguage, model);
-      if (translation) {
-        return translation;
-      }
-    } catch (error) {
-      console.warn('⚠️ Ollama falhou, tentando Google Translate');
-    }
-    
-    // Estratégia 2: Tentar Google Translate (gratuito via API não oficial)
-    try {
-      const translation = await this.translateWithGoogle(text, sourceLanguage, targetLanguage);
-      if (translation) {
-        return translation;
-      }
-    } catch (error) {
-      console.warn('⚠️ Google Translate falhou, usando dicionário local');
-    }
-
-    // Estratégia 3: Tradução baseada em dicionário simples
-    return this.translateWithDictionary(text, targetLanguage);
+    const translation = await this.translate(text, targetLanguage, sourceLanguage, selection);
+    return translation.text;
   }
 
   /**
-   * Tradução usando Ollama (modelo local de IA)
+   * Traduz um texto percorrendo a cadeia de provedores e informa qual deles respondeu
    */
-  private async translateWithOllama(
+  async translate(
     text: string,
-    sourceLanguage: string,
     targetLanguage: string,
-    model: string = 'llama3.1:8b'
-  ): Promise<string | null> {
-    try {
-      if (!text || text.trim() === '') {
-        return '';
+    sourceLanguage: string = 'auto',
+    selection: ProviderSelection = {}
+  ): Promise<ProviderTranslation> {
+    const chain = this.resolveChain(selection);
+
+    if (!text || text.trim() === '') {
+      return { text: '', provider: chain[0].id };
+    }
+
+    sourceLanguage = this.resolveSourceLanguage([text], sourceLanguage);
+
+    const useMemory = selection.useMemory !== false;
+    const rules = this.glossary.matchRules(text, targetLanguage, selection.glossary);
+    const variant = this.glossary.fingerprint(rules);
+
+    for (let i = 0; i < chain.length; i++) {
+      const provider = chain[i];
+      const model = this.modelFor(provider, i, selection);
+
+      const remembered = useMemory ? this.memory.get(text, sourceLanguage, targetLanguage, provider.id, model, variant) : null;
+      if (remembered) {
+        return this.checkGlossary(text, { text: remembered.translatedText, provider: provider.id, model, cached: true }, rules);
       }
 
-      const sourceLang = this.getLanguageName(sourceLanguage);
-      const targetLang = this.getLanguageName(targetLanguage);
-      const modelConfig = this.supportedModels[model as keyof typeof this.supportedModels];
-
-      console.log(`🤖 Traduzindo com Ollama: ${sourceLang} -> ${targetLang} (${model})`);
-
-      const prompt = `You are a professional translator. Translate the following text from ${sourceLang} to ${targetLang}.
-
-IMPORTANT INSTRUCTIONS:
-- Only return the translated text, nothing else
-- Maintain the original formatting and punctuation
-- Keep technical terms when appropriate
-- Preserve proper nouns unless they have standard translations
-- Ensure natural and fluent translation in the target language
-- Do not add explanations or comments
-
-Text to translate:
-"${text}"`;
-
-      const response = await this.ollama.generate({
-        model,
-        prompt,
-        stream: false,
-        options: {
-          temperature: modelConfig?.temperature || 0.3,
-          top_p: modelConfig?.top_p || 0.9,
-          num_predict: -1
+      try {
+        const translation = await this.translateWithGlossary(provider, text, sourceLanguage, targetLanguage, model, rules);
+        if (translation) {
+          if (useMemory) {
+            this.memory.set(text, translation, sourceLanguage, targetLanguage, provider.id, model, variant);
+          }
+          return this.checkGlossary(text, { text: translation, provider: provider.id, model }, rules);
         }
-      });
+      } catch (error: any) {
+        console.warn(`⚠️ ${provider.name} falhou: ${error.message}`);
+      }
 
-      const translatedText = response.response.trim();
-      
-      if (translatedText && translatedText !== text) {
-        console.log(`✅ Ollama traduziu: "${text}" -> "${translatedText}"`);
-        return translatedText;
+      if (i < chain.length - 1) {
+        console.warn(`⚠️ ${provider.name} não traduziu, tentando ${chain[i + 1].name}`);
       }
+    }
 
-      return null;
+    throw new Error(`Nenhum provedor conseguiu traduzir (${chain.map(p => p.id).join(' -> ')})`);
+  }
 
-    } catch (error: any) {
-      console.error('❌ Erro na tradução com Ollama:', error);
-      
-      // Se for erro de conexão, é possível que o Ollama não esteja rodando
-      if (error.code === 'ECONNREFUSED' || error.message?.includes('connect')) {
-        console.warn('⚠️ Ollama não está acessível. Verifique se está rodando.');
+  /**
+   * Verifica se o id corresponde a um provedor registrado
+   */
+  hasProvider(id: string): boolean {
+    return this.registry.has(id);
+  }
+
+  getProviderIds(): string[] {
+    return this.registry.list().map(provider => provider.id);
+  }
+
+  /**
+   * Cadeia padrão configurada em TRANSLATION_PROVIDERS
+   */
+  getDefaultChain(): string[] {
+    return [...this.defaultChain];
+  }
+
+  /**
+   * Catálogo de provedores e modelos gerado a partir do registro
+   */
+  async getProviderCatalog(): Promise<ProviderCatalogEntry[]> {
+    return Promise.all(this.registry.list().map(async (provider) => {
+      // Com o circuito aberto o provedor nem é consultado; senão, as consultas passam pela política (timeout e circuito)
+      const reachable = !this.registry.isCircuitOpen(provider.id);
+
+      return {
+        id: provider.id,
+        name: provider.name,
+        description: provider.description,
+        available: reachable && await this.registry.execute(provider.id, signal => provider.isAvailable(signal)).catch(() => false),
+        defaultModel: provider.defaultModel,
+        supportsBatch: typeof provider.translateBatch === 'function',
+        models: reachable ? await this.registry.execute(provider.id, signal => provider.listModels(signal)).catch(() => []) : [],
+        circuit: this.registry.getStatus(provider.id)
+      };
+    }));
+  }
+
+  /**
+   * Memória de tradução compartilhada (consulta, exportação, importação e limpeza)
+   */
+  getMemory(): TranslationMemoryService {
+    return this.memory;
+  }
+
+  /**
+   * Aceita o campo legado "model" com o id de um provedor (ex.: "google")
+   * ou de um modelo do Ollama (ex.: "qwen2.5:7b")
+   */
+  private resolveChain(selection: ProviderSelection): TranslationProvider[] {
+    let provider = selection.provider;
+
+    if (!provider && selection.model) {
+      if (this.registry.has(selection.model)) {
+        provider = selection.model;
+      } else if ((this.registry.get('ollama') as OllamaProvider).isSupportedModel(selection.model)) {
+        provider = 'ollama';
       }
-      
-      return null;
     }
+
+    return this.registry.resolveChain(this.defaultChain, provider, selection.fallback);
   }
 
   /**
-   * Converte código de idioma para nome completo
+   * O modelo pedido vale apenas para o primeiro provedor; os de fallback usam o padrão
    */
-  private getLanguageName(languageCode: string): string {
-    const languages: Record<string, string> = {
-      'pt': 'Portuguese',
-      'en': 'English',
-      'es': 'Spanish',
-      'fr': 'French',
-      'de': 'German',
-      'it': 'Italian',
-      'ja': 'Japanese',
-      'ko': 'Korean',
-      'zh': 'Chinese',
-      'ru': 'Russian',
-      'ar': 'Arabic',
-      'hi': 'Hindi',
-      'auto': 'Portuguese' // fallback padrão
-    };
-
-    return languages[languageCode] || 'Portuguese';
+  private modelFor(provider: TranslationProvider, position: number, selection: ProviderSelection): string | undefined {
+    const requested = selection.model && !this.registry.has(selection.model) ? selection.model : undefined;
+    return (position === 0 ? requested : undefined) ?? provider.defaultModel;
   }
 
   /**
-   * Tradução usando Google Translate (API não oficial)
+   * Traduz textos de legendas mantendo a ordem e a quantidade.
+   * No modo "batch", janelas de segmentos numerados vão em um único prompt
+   * com os vizinhos como contexto; janelas que não puderem ser validadas
+   * caem para a tradução segmento a segmento.
    */
-  private async translateWithGoogle(
-    text: string, 
-    sourceLanguage: string, 
-    targetLanguage: string
-  ): Promise<string | null> {
-    try {
-      // Usando API pública do Google Translate
-      const url = 'https://translate.googleapis.com/translate_a/single';
-      const params = {
-        client: 'gtx',
-        sl: sourceLanguage === 'auto' ? 'en' : sourceLanguage,
-        tl: targetLanguage,
-        dt: 't',
-        q: text
-      };
+  async translateSegmentTexts(
+    texts: string[],
+    targetLanguage: string,
+    sourceLanguage: string = 'auto',
+    options: SegmentBatchOptions = {}
+  ): Promise<ProviderTranslation[]> {
+    const mode = options.mode || 'batch';
+    const primary = this.resolveChain(options)[0];
+    sourceLanguage = this.resolveSourceLanguage(texts, sourceLanguage);
+
+    if (mode === 'segment' || texts.length <= 1 || !primary.translateBatch) {
+      return this.translateEachSegment(texts, targetLanguage, sourceLanguage, options);
+    }
+
+    const model = this.modelFor(primary, 0, options);
+    const windowSize = Math.max(1, options.windowSize || 10);
+    const contextSize = Math.max(0, options.contextSize ?? 2);
+    const useMemory = options.useMemory !== false;
 
-      const response = await axios.get(url, { 
-        params, 
-        timeout: 5000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; TranslationBot/1.0)'
+    const windows: number[] = [];
+    for (let start = 0; start < texts.length; start += windowSize) {
+      windows.push(start);
+    }
+
+    console.log(`📦 Traduzindo ${texts.length} segmentos em ${windows.length} lotes de até ${windowSize} (${primary.name})`);
+
+    const translatedWindows = await mapWithConcurrency(windows, this.batchConcurrency, async (start): Promise<ProviderTranslation[]> => {
+      const end = Math.min(start + windowSize, texts.length);
+      const batch = texts.slice(start, end);
+      const before = texts.slice(Math.max(0, start - contextSize), start);
+      const after = texts.slice(end, end + contextSize);
+
+      const rulesPerText = batch.map(text => this.glossary.matchRules(text, targetLanguage, options.glossary));
+      const variants = rulesPerText.map(rules => this.glossary.fingerprint(rules));
+
+      // Lote inteiro já traduzido antes: dispensa a chamada ao provedor
+      if (useMemory) {
+        const remembered = batch.map((text, index) =>
+          this.memory.get(text, sourceLanguage, targetLanguage, primary.id, model, variants[index])
+        );
+        if (remembered.every(entry => entry !== null)) {
+          return remembered.map((entry, index) =>
+            this.checkGlossary(batch[index], { text: entry!.translatedText, provider: primary.id, model, cached: true }, rulesPerText[index])
+          );
         }
-      });
+      }
 
-      if (response.data && response.data[0] && response.data[0][0]) {
-        const translatedText = response.data[0][0][0];
-        console.log(`✅ Google Translate: "${text}" -> "${translatedText}"`);
-        return translatedText;
+      let translated: string[] | null = null;
+      try {
+        translated = await this.translateBatchWithGlossary(
+          primary, batch, before, after, sourceLanguage, targetLanguage, model, rulesPerText
+        );
+      } catch (error: any) {
+        console.warn(`⚠️ ${primary.name} falhou no lote ${start + 1}-${end}: ${error.message}`);
       }
 
-      return null;
-    } catch (error) {
-      console.error('❌ Erro no Google Translate:', error);
-      return null;
+      if (translated) {
+        if (useMemory) {
+          batch.forEach((text, index) =>
+            this.memory.set(text, translated[index], sourceLanguage, targetLanguage, primary.id, model, variants[index])
+          );
+        }
+        return translated.map((text, index) =>
+          this.checkGlossary(batch[index], { text, provider: primary.id, model }, rulesPerText[index])
+        );
+      }
+
+      console.warn(`⚠️ Lote ${start + 1}-${end} não pôde ser validado, traduzindo segmento a segmento`);
+      return this.translateEachSegment(batch, targetLanguage, sourceLanguage, options);
+    });
+
+    return translatedWindows.flat();
+  }
+
+  /**
+   * QA opcional: retrotraduz cada segmento para o idioma de origem e compara com o original
+   * (chrF), além de sinalizar tamanho, saída não traduzida, explicações do modelo e números
+   */
+  async assessTranslations(
+    originals: string[],
+    translations: string[],
+    targetLanguage: string,
+    sourceLanguage: string = 'auto',
+    options: SegmentBatchOptions = {}
+  ): Promise<QualityReport> {
+    const source = sourceLanguage === 'auto' ? await this.detectLanguage(originals.join(' ')) : sourceLanguage;
+
+    console.log(`🔎 QA: retrotraduzindo ${translations.length} segmentos (${targetLanguage} -> ${source})`);
+
+    let backTranslations: string[] | undefined;
+    try {
+      const results = await this.translateSegmentTexts(translations, source, targetLanguage, {
+        ...options,
+        glossary: undefined
+      });
+      backTranslations = results.map(result => result.text);
+    } catch (error: any) {
+      console.warn(`⚠️ Retrotradução falhou, QA apenas com heurísticas: ${error.message}`);
     }
+
+    const segments = originals.map((original, index) =>
+      this.quality.assess(original, translations[index], backTranslations?.[index], source, targetLanguage)
+    );
+    const summary = this.quality.summarize(segments);
+
+    console.log(`📊 QA: nota média ${summary.averageScore ?? 'n/d'}, ${summary.flaggedSegments} segmentos sinalizados`);
+    return { segments, summary };
   }
 
   /**
-   * Tradução usando dicionário básico (fallback)
+   * Envia o glossário no prompt quando o provedor entende; senão protege os termos com marcadores
    */
-  private translateWithDictionary(text: string, targetLanguage: string): string {
-    console.log(`📚 Usando tradução por dicionário para: ${targetLanguage}`);
-
-    const translations: { [key: string]: { [key: string]: string } } = {
-      'pt': {
-        'hello': 'olá',
-        'this': 'este',
-        'is': 'é',
-        'a': 'um',
-        'sample': 'exemplo',
-        'transcription': 'transcrição',
-        'second': 'segunda',
-        'part': 'parte',
-        'audio': 'áudio',
-        'final': 'final',
-        'segment': 'segmento',
-        'thank': 'obrigado',
-        'you': 'você',
-        'for': 'por',
-        'listening': 'ouvir',
-        'and': 'e',
-        'of': 'de',
-        'the': 'o'
-      },
-      'es': {
-        'hello': 'hola',
-        'this': 'este',
-        'is': 'es',
-        'a': 'un',
-        'sample': 'ejemplo',
-        'transcription': 'transcripción',
-        'second': 'segunda',
-        'part': 'parte',
-        'audio': 'audio',
-        'final': 'final',
-        'segment': 'segmento',
-        'thank': 'gracias',
-        'you': 'tú',
-        'for': 'por',
-        'listening': 'escuchar',
-        'and': 'y',
-        'of': 'de',
-        'the': 'el'
-      },
-      'fr': {
-        'hello': 'bonjour',
-        'this': 'ce',
-        'is': 'est',
-        'a': 'un',
-        'sample': 'exemple',
-        'transcription': 'transcription',
-        'second': 'deuxième',
-        'part': 'partie',
-        'audio': 'audio',
-        'final': 'final',
-        'segment': 'segment',
-        'thank': 'merci',
-        'you': 'vous',
-        'for': 'pour',
-        'listening': 'écouter',
-        'and': 'et',
-        'of': 'de',
-        'the': 'le'
-      }
-    };
+  private async translateWithGlossary(
+    provider: TranslationProvider,
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    model: string | undefined,
+    rules: GlossaryRule[]
+  ): Promise<string | null> {
+    if (rules.length === 0 || provider.supportsGlossary) {
+      return this.registry.execute(provider.id, signal =>
+        provider.translate(text, sourceLanguage, targetLanguage, model, rules, signal)
+      );
+    }
 
-    const dictionary = translations[targetLanguage];
-    if (!dictionary) {
-      console.warn(`⚠️ Dicionário não disponível para ${targetLanguage}, retornando texto original`);
-      return text;
+    const protectedText = this.glossary.protect(text, rules);
+    const translation = await this.registry.execute(provider.id, signal =>
+      provider.translate(protectedText.text, sourceLanguage, targetLanguage, model, undefined, signal)
+    );
+    return translation ? this.glossary.restore(translation, protectedText.placeholders) : translation;
+  }
+
+  private async translateBatchWithGlossary(
+    provider: TranslationProvider,
+    batch: string[],
+    before: string[],
+    after: string[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    model: string | undefined,
+    rulesPerText: GlossaryRule[][]
+  ): Promise<string[] | null> {
+    if (provider.supportsGlossary) {
+      // Regras de todo o lote, sem repetir termos
+      const rules = rulesPerText.flat().filter((rule, index, all) =>
+        all.findIndex(other => other.source.toLowerCase() === rule.source.toLowerCase()) === index
+      );
+      return this.registry.execute(provider.id, signal =>
+        provider.translateBatch!(batch, before, after, sourceLanguage, targetLanguage, model, rules, signal)
+      );
     }
 
-    // Tradução palavra por palavra (básica)
-    const words = text.toLowerCase().split(/\s+/);
-    const translatedWords = words.map(word => {
-      const cleanWord = word.replace(/[^\w]/g, '');
-      return dictionary[cleanWord] || word;
-    });
+    const protectedTexts = batch.map((text, index) => this.glossary.protect(text, rulesPerText[index]));
+    const translated = await this.registry.execute(provider.id, signal =>
+      provider.translateBatch!(protectedTexts.map(item => item.text), before, after, sourceLanguage, targetLanguage, model, undefined, signal)
+    );
+    return translated ? translated.map((text, index) => this.glossary.restore(text, protectedTexts[index].placeholders)) : null;
+  }
 
-    const result = translatedWords.join(' ');
-    console.log(`📝 Tradução dicionário: "${text}" -> "${result}"`);
-    
-    return result;
+  /**
+   * Marca a tradução com os termos do glossário que não aparecem no resultado
+   */
+  private checkGlossary(sourceText: string, translation: ProviderTranslation, rules: GlossaryRule[]): ProviderTranslation {
+    if (rules.length === 0) {
+      return translation;
+    }
+
+    const violations = this.glossary.findViolations(translation.text, rules);
+    if (violations.length > 0) {
+      console.warn(`⚠️ Glossário não respeitado em "${sourceText.substring(0, 50)}": ${violations.map(v => v.expected).join(', ')}`);
+      return { ...translation, glossaryViolations: violations };
+    }
+
+    return translation;
+  }
+
+  /**
+   * Tradução individual com paralelismo limitado para não sobrecarregar os provedores
+   */
+  private async translateEachSegment(
+    texts: string[],
+    targetLanguage: string,
+    sourceLanguage: string,
+    selection: ProviderSelection
+  ): Promise<ProviderTranslation[]> {
+    return mapWithConcurrency(texts, this.segmentConcurrency, (text) =>
+      this.translate(text, targetLanguage, sourceLanguage, selection)
+    );
   }
 
   /**
@@ -465,76 +606,36 @@ Text to translate:
   }
 
   /**
-   * Detecta idioma do texto automaticamente
+   * Detecta idioma do texto automaticamente (trigramas de caracteres).
+   * Sem letras para analisar, assume inglês.
    */
   async detectLanguage(text: string): Promise<string> {
-    // Implementação básica de detecção de idioma
-    const portuguese = /[àáâãçéêíóôõú]/i;
-    const spanish = /[ñáéíóúü]/i;
-    const french = /[àâäéèêëïîôùûüÿç]/i;
-    
-    if (portuguese.test(text)) return 'pt';
-    if (spanish.test(text)) return 'es';
-    if (french.test(text)) return 'fr';
-    
-    return 'en'; // Default para inglês
+    return this.detector.detect(text)?.language || 'en';
   }
 
   /**
-   * Obter modelos de tradução disponíveis no Ollama
+   * Idiomas candidatos em ordem, com a confiança de cada um
    */
-  async getAvailableModels(): Promise<Array<{id: string, name: string, description: string, available: boolean}>> {
-    try {
-      // Tentar listar modelos disponíveis no Ollama
-      const models = await this.ollama.list();
-      
-      const availableModels = Object.entries(this.supportedModels).map(([id, config]) => {
-        const isAvailable = models.models.some(model => model.name.startsWith(id));
-        return {
-          id,
-          name: config.name,
-          description: config.description,
-          available: isAvailable
-        };
-      });
-
-      // Adicionar modelos padrão sempre disponíveis
-      const defaultModels = [
-        {
-          id: 'google',
-          name: 'Google Translate',
-          description: 'Serviço de tradução do Google',
-          available: true
-        },
-        {
-          id: 'dictionary',
-          name: 'Dictionary Fallback',
-          description: 'Sistema de tradução básico usando dicionário local',
-          available: true
-        }
-      ];
+  detectLanguageCandidates(text: string): LanguageDetection | null {
+    return this.detector.detect(text);
+  }
 
-      return [...availableModels, ...defaultModels];
+  /**
+   * Troca "auto" pelo idioma detectado quando a confiança é suficiente;
+   * senão mantém "auto" para que o provedor identifique
+   */
+  resolveSourceLanguage(texts: string[], sourceLanguage: string): string {
+    if (sourceLanguage !== 'auto') {
+      return sourceLanguage;
+    }
 
-    } catch (error) {
-      console.warn('⚠️ Erro ao obter modelos Ollama, retornando modelos padrão');
-      
-      // Retornar apenas modelos não-Ollama se houver erro
-      return [
-        {
-          id: 'google',
-          name: 'Google Translate',
-          description: 'Serviço de tradução do Google',
-          available: true
-        },
-        {
-          id: 'dictionary',
-          name: 'Dictionary Fallback',
-          description: 'Sistema de tradução básico usando dicionário local',
-          available: true
-        }
-      ];
+    const detection = this.detector.detect(texts.join(' '));
+    if (detection && detection.probability >= this.minDetectionConfidence) {
+      console.log(`🔤 Idioma de origem detectado no texto: ${detection.language} (${(detection.probability * 100).toFixed(1)}%)`);
+      return detection.language;
     }
+
+    return sourceLanguage;
   }
 
   /**
@@ -557,15 +658,17 @@ Text to translate:
     ];
   }
 
+  /**
+   * Verificar se o código é de um idioma suportado
+   */
+  isSupportedLanguage(code: any): boolean {
+    return typeof code === 'string' && this.getSupportedLanguages().some(language => language.code === code);
+  }
+
   /**
    * Verificar se o Ollama está disponível
    */
   async isOllamaAvailable(): Promise<boolean> {
-    try {
-      await this.ollama.list();
-      return true;
-    } catch (error) {
-      return false;
-    }
+    return this.registry.get('ollama').isAvailable();
   }
 }
@@ -0,0 +1,157 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { definedFields } from '../utils/objects';
+
+const execAsync = promisify(exec);
+
+export interface SpeechRegion {
+  start: number;
+  end: number;
+}
+
+export interface VadOptions {
+  enabled?: boolean;
+  threshold?: number;          // Nível de ruído em dB abaixo do qual o áudio é silêncio
+  minSilenceDuration?: number; // Silêncio mínimo (s) para separar duas regiões de fala
+  minSpeechDuration?: number;  // Regiões de fala menores que isso são descartadas
+  padding?: number;            // Margem (s) adicionada em volta de cada região
+}
+
+export class VadService {
+  private readonly defaults: Required<VadOptions>;
+
+  constructor() {
+    this.defaults = {
+      enabled: process.env.WHISPER_VAD !== 'false',
+      threshold: parseFloat(process.env.WHISPER_VAD_THRESHOLD || '-35'),
+      minSilenceDuration: parseFloat(process.env.WHISPER_VAD_MIN_SILENCE || '0.5'),
+      minSpeechDuration: 0.25,
+      padding: 0.1
+    };
+  }
+
+  /**
+   * Mescla as opções da requisição com os padrões do ambiente
+   */
+  resolveOptions(options?: VadOptions): Required<VadOptions> {
+    return { ...this.defaults, ...definedFields(options || {}) };
+  }
+
+  /**
+   * Detecta regiões de fala usando o filtro silencedetect do FFmpeg.
+   * Retorna null se a análise falhar, para que a transcrição siga sem VAD.
+   */
+  async detectSpeechRegions(
+    audioPath: string,
+    duration: number,
+    options?: VadOptions
+  ): Promise<SpeechRegion[] | null> {
+    const config = this.resolveOptions(options);
+    if (!config.enabled) {
+      return null;
+    }
+
+    try {
+      console.log(`🔇 Detectando silêncio (limiar ${config.threshold}dB, mínimo ${config.minSilenceDuration}s)`);
+
+      const command = `ffmpeg -hide_banner -nostats -i "${audioPath}" -af silencedetect=noise=${config.threshold}dB:d=${config.minSilenceDuration} -f null -`;
+      const { stderr } = await execAsync(command, { maxBuffer: 20 * 1024 * 1024 });
+
+      const silences = this.parseSilences(stderr, duration);
+      const regions = this.invertSilences(silences, duration, config);
+
+      const speechTime = regions.reduce((sum, region) => sum + (region.end - region.start), 0);
+      console.log(`🗣️ ${regions.length} regiões de fala (${speechTime.toFixed(2)}s de ${duration.toFixed(2)}s)`);
+
+      return regions;
+
+    } catch (error: any) {
+      console.warn(`⚠️ Falha na detecção de voz, seguindo sem VAD: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Fração do intervalo [start, end] coberta por fala
+   */
+  speechRatio(start: number, end: number, regions: SpeechRegion[]): number {
+    const length = end - start;
+    if (length <= 0) {
+      return 0;
+    }
+
+    const covered = regions.reduce((sum, region) => {
+      const overlap = Math.min(end, region.end) - Math.max(start, region.start);
+      return sum + Math.max(0, overlap);
+    }, 0);
+
+    return Math.min(1, covered / length);
+  }
+
+  /**
+   * Recorta as regiões para uma janela e as desloca para o tempo local da janela
+   */
+  sliceRegions(regions: SpeechRegion[], windowStart: number, windowDuration: number): SpeechRegion[] {
+    const windowEnd = windowStart + windowDuration;
+
+    return regions
+      .filter(region => region.end > windowStart && region.start < windowEnd)
+      .map(region => ({
+        start: Math.max(region.start, windowStart) - windowStart,
+        end: Math.min(region.end, windowEnd) - windowStart
+      }));
+  }
+
+  private parseSilences(stderr: string, duration: number): SpeechRegion[] {
+    const silences: SpeechRegion[] = [];
+    let currentStart: number | null = null;
+
+    for (const line of stderr.split('\n')) {
+      const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+      if (startMatch) {
+        currentStart = Math.max(0, parseFloat(startMatch[1]));
+        continue;
+      }
+
+      const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+      if (endMatch && currentStart !== null) {
+        silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+        currentStart = null;
+      }
+    }
+
+    // Silêncio que vai até o fim do arquivo não tem silence_end
+    if (currentStart !== null) {
+      silences.push({ start: currentStart, end: duration });
+    }
+
+    return silences;
+  }
+
+  private invertSilences(
+    silences: SpeechRegion[],
+    duration: number,
+    config: Required<VadOptions>
+  ): SpeechRegion[] {
+    const regions: SpeechRegion[] = [];
+    let cursor = 0;
+
+    for (const silence of silences) {
+      if (silence.start > cursor) {
+        regions.push({ start: cursor, end: silence.start });
+      }
+      cursor = Math.max(cursor, silence.end);
+    }
+
+    if (cursor < duration) {
+      regions.push({ start: cursor, end: duration });
+    }
+
+    return regions
+      .filter(region => region.end - region.start >= config.minSpeechDuration)
+      .map(region => ({
+        start: parseFloat(Math.max(0, region.start - config.padding).toFixed(2)),
+        end: parseFloat(Math.min(duration, region.end + config.padding).toFixed(2))
+      }));
+  }
+}
@@ -2,60 +2,165 @@ import { exec } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { EncodingProfile, encodingArgs, ENCODING_PROFILES, scaleFilter } from '../utils/encoding-profiles';
+import { getLanguageIso6392, getLanguageName } from '../utils/languages';
+import { LayoutOptions, SubtitleLayout, SubtitleLayoutService, VideoDimensions } from './subtitle-layout.service';
+import { assStyleFields, BilingualOptions, SerializeOptions, serializeSubtitles, SUBTITLE_FORMAT_INFO, SubtitleFormat } from '../utils/subtitle-formats';
 
 const execAsync = promisify(exec);
 
+export const SUBTITLE_ALIGNMENTS = [
+  'bottom-left', 'bottom-center', 'bottom-right',
+  'middle-left', 'middle-center', 'middle-right',
+  'top-left', 'top-center', 'top-right'
+] as const;
+
+export type SubtitleAlignment = typeof SUBTITLE_ALIGNMENTS[number];
+
 export interface SubtitleStyle {
   fontName: string;
   fontSize: number;
-  fontColor: string;
-  backgroundColor: string;
-  borderWidth: number;
+  fontColor: string;          // Cores em #rgb, #rrggbb ou #rrggbbaa (aa = opacidade)
+  backgroundColor: string;    // Cor da caixa (box) ou da sombra
+  borderWidth: number;        // Contorno do texto, ou margem interna da caixa
   borderColor: string;
   marginVertical: number;
+  marginHorizontal?: number;
+  marginLeft?: number;        // Margens por lado, calculadas pela área segura (padrão: marginHorizontal)
+  marginRight?: number;
+  alignment?: SubtitleAlignment;
+  bold?: boolean;
+  italic?: boolean;
+  shadow?: number;            // Distância da sombra (0 = sem sombra)
+  shadowColor?: string;       // Padrão: backgroundColor
+  box?: boolean;              // Caixa atrás do texto em vez de contorno
+  boxOpacity?: number;        // 0 a 1; substitui o alfa de backgroundColor na caixa
 }
 
 export interface TranslatedSegment {
   start: number;
   end: number;
   text: string;
+  speaker?: string;
+  originalText?: string;      // Texto no idioma de origem (legendas bilíngues)
+}
+
+export interface SubtitleTrack {
+  language: string;
+  segments: TranslatedSegment[];
+  title?: string;             // Nome exibido no player (padrão: nome do idioma)
+}
+
+export type SubtitleContainer = 'mp4' | 'mkv' | 'webm';
+export type SoftSubtitleFormat = 'mov_text' | 'srt' | 'ass' | 'webvtt';
+
+export interface SoftSubtitleOptions {
+  container?: SubtitleContainer;  // mp4 usa mov_text; mkv aceita srt ou ass; webm usa webvtt
+  format?: SoftSubtitleFormat;
+  profile?: EncodingProfile;      // Recodifica vídeo e áudio (padrão: copiados sem recodificar)
+  defaultLanguage?: string;       // Faixa marcada como padrão no player
+  style?: SubtitleStyle;          // Estilos gravados nas faixas ASS
+  bilingual?: BilingualOptions;   // Original junto da tradução em cada faixa
+}
+
+export interface BurnSubtitleOptions {
+  bilingual?: BilingualOptions;   // Original junto da tradução, com estilo próprio
+  layout?: LayoutOptions;         // Escala pela resolução do vídeo e área segura
+  profile?: EncodingProfile;      // Codificação e container da saída (padrão: web-h264)
+}
+
+export interface HlsRendition {
+  name: string;               // Nome do stream e da playlist (ex.: 720p.m3u8)
+  size: number;               // Lado menor do quadro (altura no paisagem, largura no vertical)
+  videoBitrate: string;
+  audioBitrate: string;
+}
+
+// Escada de qualidades do HLS; só entram as que não ampliam o vídeo de origem
+export const HLS_LADDER: HlsRendition[] = [
+  { name: '1080p', size: 1080, videoBitrate: '5000k', audioBitrate: '192k' },
+  { name: '720p', size: 720, videoBitrate: '2800k', audioBitrate: '128k' },
+  { name: '480p', size: 480, videoBitrate: '1400k', audioBitrate: '128k' },
+  { name: '360p', size: 360, videoBitrate: '800k', audioBitrate: '96k' }
+];
+
+export interface HlsOptions {
+  renditions?: string[];          // Nomes da escada (padrão: HLS_RENDITIONS ou todos)
+  defaultLanguage?: string;       // Legenda marcada como DEFAULT no master
+  segmentDuration?: number;       // Segundos por segmento (padrão: 6)
+}
+
+export interface HlsResult {
+  success: boolean;
+  message: string;
+  jobId?: string;
+  directory?: string;             // Pasta do pacote (temp/hls/<jobId>)
+  renditions?: HlsRendition[];
+  subtitles?: Array<{ language: string; name: string; playlist: string }>;  // Caminhos relativos ao pacote
 }
 
 export interface VideoResult {
   success: boolean;
   message: string;
   outputPath?: string;
+  video?: VideoDimensions;        // Dimensões lidas pelo ffprobe (legendas gravadas)
+  layout?: SubtitleLayout;        // Estilo efetivo aplicado ao vídeo
+  profile?: EncodingProfile;      // Perfil de codificação usado na saída
 }
 
 export class VideoService {
+  private layoutService = new SubtitleLayoutService();
 
+  /**
+   * Grava as legendas no vídeo. Com o tamanho do vídeo (ffprobe), usa um arquivo ASS na
+   * resolução real, com o estilo escalado e dentro da área segura; no modo bilíngue, com
+   * um estilo para a tradução e outro para o original.
+   */
   async generateVideoWithSubtitles(
     inputVideoPath: string,
     segments: TranslatedSegment[],
-    style: SubtitleStyle
+    style: SubtitleStyle,
+    options: BurnSubtitleOptions = {}
   ): Promise<VideoResult> {
     try {
       console.log('🎬 Iniciando geração de vídeo com legendas...');
 
       // Verificar se FFmpeg está disponível
-      try {
-        await execAsync('ffmpeg -version');
-        console.log('✅ FFmpeg disponível');
-      } catch (ffmpegError) {
+      if (!(await this.isFFmpegAvailable())) {
         return {
           success: false,
           message: 'FFmpeg não encontrado. Instale o FFmpeg para continuar.'
         };
       }
 
-      // Gerar arquivo SRT
-      const srtPath = await this.generateSRTFile(segments);
-      console.log(`📝 Arquivo SRT gerado: ${srtPath}`);
+      const { bilingual } = options;
+      const profile = options.profile || ENCODING_PROFILES['web-h264'];
+      const layoutEnabled = this.layoutService.isEnabled(options.layout);
+      const video = layoutEnabled || profile.video?.maxSize
+        ? await this.probeVideo(inputVideoPath)
+        : undefined;
+      const layout = layoutEnabled && video ? this.layoutService.layout(style, video, options.layout) : undefined;
+
+      console.log(`🎞️ Perfil de saída: ${profile.id} (${profile.container})`);
+
+      if (layout) {
+        console.log(`📐 Layout das legendas: ${video!.width}x${video!.height} (${layout.orientation}), escala ${layout.scale}`);
+      }
+
+      // Gerar arquivo SRT (ou ASS com os estilos já resolvidos, com layout ou no modo bilíngue)
+      const srtPath = layout || bilingual
+        ? await this.generateSubtitleFile(segments, 'ass', undefined, {
+          style: layout ? layout.style : style,
+          bilingual: layout && bilingual ? this.layoutBilingual(bilingual, style, video!, layout) : bilingual,
+          playRes: layout ? { width: layout.playResX, height: layout.playResY } : undefined
+        })
+        : await this.generateSRTFile(segments);
+      console.log(`📝 Arquivo de legendas gerado: ${srtPath}`);
 
       // Gerar vídeo com legendas
-      const outputPath = this.generateOutputPath(inputVideoPath);
+      const outputPath = this.generateOutputPath(inputVideoPath, profile.container);
       
-      const ffmpegCommand = this.buildFFmpegCommand(inputVideoPath, srtPath, outputPath, style);
+      const ffmpegCommand = this.buildFFmpegCommand(inputVideoPath, srtPath, outputPath, profile, layout || bilingual ? undefined : style, video);
       
       console.log(`🔄 Executando FFmpeg: ${ffmpegCommand}`);
       
@@ -85,7 +190,10 @@ export class VideoService {
       return {
         success: true,
         message: 'Vídeo com legendas gerado com sucesso',
-        outputPath
+        outputPath,
+        video,
+        layout,
+        profile
       };
 
     } catch (error: any) {
@@ -97,41 +205,386 @@ export class VideoService {
     }
   }
 
+  /**
+   * Gera um único vídeo com uma faixa de legenda selecionável por idioma,
+   * copiando vídeo e áudio sem recodificar
+   */
+  async generateVideoWithSoftSubtitles(
+    inputVideoPath: string,
+    tracks: SubtitleTrack[],
+    options: SoftSubtitleOptions = {}
+  ): Promise<VideoResult> {
+    const srtPaths: string[] = [];
+    const container = options.container || 'mp4';
+
+    try {
+      console.log(`🎬 Adicionando ${tracks.length} faixas de legenda (${container}): ${tracks.map(track => track.language).join(', ')}`);
+
+      if (!(await this.isFFmpegAvailable())) {
+        return {
+          success: false,
+          message: 'FFmpeg não encontrado. Instale o FFmpeg para continuar.'
+        };
+      }
+
+      // Faixas ASS são gravadas já em ASS para manter os estilos; as demais partem de SRT
+      const inputFormat: SubtitleFormat = options.container === 'mkv' && options.format === 'ass' ? 'ass' : 'srt';
+      for (const track of tracks) {
+        srtPaths.push(await this.generateSubtitleFile(track.segments, inputFormat, undefined, {
+          style: options.style,
+          bilingual: options.bilingual,
+          title: track.title || getLanguageName(track.language)
+        }));
+      }
+
+      // Com perfil, o vídeo é recodificado; a redução de resolução precisa das dimensões
+      const video = options.profile?.video?.maxSize ? await this.probeVideo(inputVideoPath) : undefined;
+
+      const outputPath = this.generateOutputPath(inputVideoPath, container);
+      const ffmpegCommand = this.buildSoftSubtitlesCommand(inputVideoPath, tracks, srtPaths, outputPath, options, video);
+
+      console.log(`🔄 Executando FFmpeg: ${ffmpegCommand}`);
+      await execAsync(ffmpegCommand);
+
+      if (!fs.existsSync(outputPath)) {
+        return {
+          success: false,
+          message: 'Arquivo de saída não foi criado'
+        };
+      }
+
+      console.log(`✅ Vídeo com faixas de legenda criado: ${outputPath}`);
+
+      return {
+        success: true,
+        message: 'Vídeo com faixas de legenda gerado com sucesso',
+        outputPath,
+        profile: options.profile
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao adicionar faixas de legenda:', error);
+      return {
+        success: false,
+        message: `Erro na geração: ${error.message}`
+      };
+
+    } finally {
+      srtPaths.filter(srtPath => fs.existsSync(srtPath)).forEach(srtPath => fs.unlinkSync(srtPath));
+    }
+  }
+
+  /**
+   * Grava os segmentos no formato pedido no caminho indicado (arquivos para download)
+   */
+  async exportSubtitleFile(
+    segments: TranslatedSegment[],
+    format: SubtitleFormat,
+    outputPath: string,
+    options?: SerializeOptions
+  ): Promise<string> {
+    return this.generateSubtitleFile(segments, format, outputPath, options);
+  }
+
+  /**
+   * Lê largura, altura, rotação e proporção do primeiro stream de vídeo.
+   * Retorna undefined se não houver vídeo ou se o ffprobe falhar.
+   */
+  async probeVideo(inputPath: string): Promise<VideoDimensions | undefined> {
+    try {
+      const command = `ffprobe -v error -select_streams v:0 -show_entries stream=width,height,sample_aspect_ratio:stream_tags=rotate:stream_side_data=rotation -of json "${inputPath}"`;
+      const { stdout } = await execAsync(command);
+      const stream = JSON.parse(stdout).streams?.[0];
+
+      if (!stream?.width || !stream?.height) {
+        return undefined;
+      }
+
+      // Vídeos de celular costumam vir deitados com a rotação nos metadados; o FFmpeg gira o quadro ao decodificar
+      const rawRotation = stream.side_data_list?.find((data: any) => data.rotation !== undefined)?.rotation
+        ?? stream.tags?.rotate
+        ?? 0;
+      const rotation = ((Math.round(parseFloat(rawRotation) / 90) * 90) % 360 + 360) % 360;
+      const swap = rotation === 90 || rotation === 270;
+      const width = swap ? stream.height : stream.width;
+      const height = swap ? stream.width : stream.height;
+
+      // Pixels não quadrados (ex.: DV anamórfico) mudam a proporção exibida
+      const [sarNum, sarDen] = String(stream.sample_aspect_ratio || '1:1').split(':').map(Number);
+      const sar = sarNum > 0 && sarDen > 0 ? sarNum / sarDen : 1;
+      const aspectRatio = swap ? width / (height * sar) : (width * sar) / height;
+
+      return { width, height, rotation, aspectRatio: Math.round(aspectRatio * 1000) / 1000 };
+
+    } catch (error: any) {
+      console.warn(`⚠️ Não foi possível ler as dimensões do vídeo, usando o layout padrão: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Empacota o vídeo em HLS: uma rendição H.264/AAC por qualidade da escada, um master
+   * playlist e uma rendição de legenda WebVTT por idioma, em temp/hls/<jobId>
+   */
+  async generateHLSPackage(
+    inputVideoPath: string,
+    tracks: SubtitleTrack[],
+    options: HlsOptions = {}
+  ): Promise<HlsResult> {
+    const jobId = `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const directory = path.join('temp', 'hls', jobId);
+
+    try {
+      console.log(`📦 Iniciando pacote HLS ${jobId} (${tracks.length} legendas)`);
+
+      // O código do idioma vira pasta do pacote e atributo LANGUAGE do master: só idiomas conhecidos
+      const unknownLanguages = tracks.filter(track => getLanguageIso6392(track.language) === 'und');
+      if (unknownLanguages.length > 0) {
+        return {
+          success: false,
+          message: `Idiomas de legenda desconhecidos: ${unknownLanguages.map(track => track.language).join(', ')}`
+        };
+      }
+
+      if (!(await this.isFFmpegAvailable())) {
+        return {
+          success: false,
+          message: 'FFmpeg não encontrado. Instale o FFmpeg para continuar.'
+        };
+      }
+
+      const video = await this.probeVideo(inputVideoPath);
+      if (!video) {
+        return {
+          success: false,
+          message: 'HLS precisa de um arquivo com stream de vídeo'
+        };
+      }
+
+      const renditions = this.selectRenditions(video, options.renditions);
+      const segmentDuration = options.segmentDuration || 6;
+      const hasAudio = await this.hasAudioStream(inputVideoPath);
+
+      fs.mkdirSync(directory, { recursive: true });
+
+      const ffmpegCommand = this.buildHLSCommand(inputVideoPath, directory, video, renditions, segmentDuration, hasAudio);
+      console.log(`🔄 Executando FFmpeg: ${ffmpegCommand}`);
+      await execAsync(ffmpegCommand, { maxBuffer: 10 * 1024 * 1024 });
+
+      const masterPath = path.join(directory, 'master.m3u8');
+      if (!fs.existsSync(masterPath)) {
+        fs.rmSync(directory, { recursive: true, force: true });
+        return {
+          success: false,
+          message: 'Master playlist não foi criado'
+        };
+      }
+
+      // Legendas: um único segmento WebVTT por idioma, com a duração do vídeo
+      const duration = await this.probeDuration(inputVideoPath)
+        ?? Math.max(0, ...tracks.flatMap(track => track.segments.map(segment => segment.end)));
+      const subtitles = tracks.map(track => this.writeHLSSubtitles(directory, track, duration));
+
+      this.addSubtitlesToMaster(masterPath, subtitles, options.defaultLanguage);
+
+      console.log(`✅ Pacote HLS criado: ${directory} (${renditions.map(rendition => rendition.name).join(', ')})`);
+
+      return {
+        success: true,
+        message: 'Pacote HLS gerado com sucesso',
+        jobId,
+        directory,
+        renditions,
+        subtitles
+      };
+
+    } catch (error: any) {
+      console.error('❌ Erro ao gerar pacote HLS:', error);
+      fs.rmSync(directory, { recursive: true, force: true });
+      return {
+        success: false,
+        message: `Erro na geração: ${error.message}`
+      };
+    }
+  }
+
+  private async isFFmpegAvailable(): Promise<boolean> {
+    try {
+      await execAsync('ffmpeg -version');
+      console.log('✅ FFmpeg disponível');
+      return true;
+    } catch (ffmpegError) {
+      return false;
+    }
+  }
+
   private async generateSRTFile(segments: TranslatedSegment[]): Promise<string> {
-    const srtContent = segments.map((segment, index) => {
-      const startTime = this.formatSRTTime(segment.start);
-      const endTime = this.formatSRTTime(segment.end);
-      
-      return [
-        index + 1,
-        `${startTime} --> ${endTime}`,
-        segment.text,
-        ''
-      ].join('\n');
-    }).join('\n');
-
-    const srtPath = path.join('temp', `subtitles_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.srt`);
+    return this.generateSubtitleFile(segments, 'srt');
+  }
+
+  private async generateSubtitleFile(
+    segments: TranslatedSegment[],
+    format: SubtitleFormat,
+    outputPath?: string,
+    options?: SerializeOptions
+  ): Promise<string> {
+    const content = serializeSubtitles(segments, format, options);
+    const subtitlePath = outputPath || path.join('temp', `subtitles_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.${SUBTITLE_FORMAT_INFO[format].extension}`);
     
     // Garantir que o diretório temp existe
-    const tempDir = path.dirname(srtPath);
+    const tempDir = path.dirname(subtitlePath);
     if (!fs.existsSync(tempDir)) {
       fs.mkdirSync(tempDir, { recursive: true });
     }
 
-    fs.writeFileSync(srtPath, srtContent, 'utf8');
-    return srtPath;
+    fs.writeFileSync(subtitlePath, content, 'utf8');
+    return subtitlePath;
   }
 
-  private formatSRTTime(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = Math.floor(seconds % 60);
-    const milliseconds = Math.floor((seconds % 1) * 1000);
+  private async probeDuration(inputPath: string): Promise<number | undefined> {
+    try {
+      const { stdout } = await execAsync(`ffprobe -v quiet -show_entries format=duration -of csv=p=0 "${inputPath}"`);
+      const duration = parseFloat(stdout.trim());
+      return isNaN(duration) ? undefined : duration;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async hasAudioStream(inputPath: string): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync(`ffprobe -v error -select_streams a -show_entries stream=index -of csv=p=0 "${inputPath}"`);
+      return stdout.trim() !== '';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Qualidades pedidas que não ampliam o vídeo; se nenhuma couber, a menor delas
+   */
+  private selectRenditions(video: VideoDimensions, names?: string[]): HlsRendition[] {
+    const requested = names || process.env.HLS_RENDITIONS?.split(',').map(name => name.trim());
+    const ladder = requested
+      ? HLS_LADDER.filter(rendition => requested.includes(rendition.name))
+      : HLS_LADDER;
+
+    const shortSide = Math.min(video.width, video.height);
+    const fitting = ladder.filter(rendition => rendition.size <= shortSide);
+    return fitting.length > 0 ? fitting : ladder.slice(-1);
+  }
+
+  /**
+   * Um único FFmpeg: o vídeo é dividido em uma escala por qualidade, com keyframes
+   * alinhados ao tamanho do segmento para o player trocar de rendição sem saltos
+   */
+  private buildHLSCommand(
+    inputPath: string,
+    directory: string,
+    video: VideoDimensions,
+    renditions: HlsRendition[],
+    segmentDuration: number,
+    hasAudio: boolean
+  ): string {
+    const portrait = video.height > video.width;
+    const outputs = renditions.map((_, index) => `[v${index}]`).join('');
+    const scales = renditions.map((rendition, index) =>
+      `[v${index}]scale=${portrait ? `${rendition.size}:-2` : `-2:${rendition.size}`}[v${index}out]`);
+    const filterComplex = `[0:v]split=${renditions.length}${outputs};${scales.join(';')}`;
+
+    const streams = renditions.flatMap((rendition, index) => [
+      '-map', `"[v${index}out]"`,
+      `-c:v:${index}`, 'libx264',
+      `-b:v:${index}`, rendition.videoBitrate,
+      `-maxrate:v:${index}`, rendition.videoBitrate,
+      `-bufsize:v:${index}`, `${parseInt(rendition.videoBitrate, 10) * 2}k`,
+      ...(hasAudio ? ['-map', '0:a:0', `-c:a:${index}`, 'aac', `-b:a:${index}`, rendition.audioBitrate] : [])
+    ]);
+    const streamMap = renditions
+      .map((rendition, index) => hasAudio ? `v:${index},a:${index},name:${rendition.name}` : `v:${index},name:${rendition.name}`)
+      .join(' ');
+
+    return [
+      'ffmpeg',
+      '-i', `"${inputPath}"`,
+      '-filter_complex', `"${filterComplex}"`,
+      ...streams,
+      '-preset', 'veryfast',
+      '-pix_fmt', 'yuv420p',
+      '-force_key_frames', `"expr:gte(t,n_forced*${segmentDuration})"`,
+      '-sc_threshold', '0',
+      '-f', 'hls',
+      '-hls_time', String(segmentDuration),
+      '-hls_playlist_type', 'vod',
+      '-hls_segment_filename', `"${path.join(directory, '%v_%03d.ts')}"`,
+      '-master_pl_name', 'master.m3u8',
+      '-var_stream_map', `"${streamMap}"`,
+      '-y',
+      // Playlists das variantes na raiz do pacote: o master é gravado na pasta da saída
+      `"${path.join(directory, '%v.m3u8')}"`
+    ].join(' ');
+  }
+
+  private writeHLSSubtitles(directory: string, track: SubtitleTrack, duration: number): { language: string; name: string; playlist: string } {
+    const subtitleDir = path.join(directory, 'subs', track.language);
+    fs.mkdirSync(subtitleDir, { recursive: true });
+
+    // O muxer MPEG-TS do FFmpeg começa os segmentos em 1,4s (126000 no relógio de 90 kHz)
+    const vtt = serializeSubtitles(track.segments, 'vtt')
+      .replace(/^WEBVTT/, 'WEBVTT\nX-TIMESTAMP-MAP=MPEGTS:126000,LOCAL:00:00:00.000');
+    fs.writeFileSync(path.join(subtitleDir, 'subtitles.vtt'), vtt, 'utf8');
+
+    const playlist = [
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      `#EXT-X-TARGETDURATION:${Math.max(1, Math.ceil(duration))}`,
+      '#EXT-X-MEDIA-SEQUENCE:0',
+      '#EXT-X-PLAYLIST-TYPE:VOD',
+      `#EXTINF:${duration.toFixed(3)},`,
+      'subtitles.vtt',
+      '#EXT-X-ENDLIST',
+      ''
+    ].join('\n');
+    fs.writeFileSync(path.join(subtitleDir, 'index.m3u8'), playlist, 'utf8');
 
-    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')},${milliseconds.toString().padStart(3, '0')}`;
+    return {
+      language: track.language,
+      name: track.title || getLanguageName(track.language),
+      playlist: `subs/${track.language}/index.m3u8`
+    };
   }
 
-  private generateOutputPath(inputPath: string): string {
+  /**
+   * Acrescenta o grupo de legendas ao master gerado pelo FFmpeg e o associa a cada variante
+   */
+  private addSubtitlesToMaster(
+    masterPath: string,
+    subtitles: Array<{ language: string; name: string; playlist: string }>,
+    defaultLanguage?: string
+  ): void {
+    if (subtitles.length === 0) {
+      return;
+    }
+
+    const media = subtitles.map(subtitle => [
+      '#EXT-X-MEDIA:TYPE=SUBTITLES',
+      'GROUP-ID="subs"',
+      `NAME="${subtitle.name.replace(/["\r\n]/g, '')}"`,
+      `LANGUAGE="${subtitle.language}"`,
+      `DEFAULT=${subtitle.language === defaultLanguage ? 'YES' : 'NO'}`,
+      'AUTOSELECT=YES',
+      `URI="${subtitle.playlist}"`
+    ].join(','));
+
+    const lines = fs.readFileSync(masterPath, 'utf8').split('\n');
+    const headerIndex = Math.max(0, lines.findIndex(line => line.startsWith('#EXT-X-VERSION')));
+    const master = lines.map(line => line.startsWith('#EXT-X-STREAM-INF:') ? `${line},SUBTITLES="subs"` : line);
+    master.splice(headerIndex + 1, 0, ...media);
+
+    fs.writeFileSync(masterPath, master.join('\n'), 'utf8');
+  }
+
+  private generateOutputPath(inputPath: string, extension: string = 'mp4'): string {
     const ext = path.extname(inputPath);
     const basename = path.basename(inputPath, ext);
     const dirname = path.dirname(inputPath);
@@ -139,45 +592,109 @@ export class VideoService {
     const timestamp = Date.now();
     const randomId = Math.random().toString(36).substr(2, 8);
     
-    return path.join(dirname, `${basename}_subtitled_${timestamp}_${randomId}.mp4`);
+    return path.join(dirname, `${basename}_subtitled_${timestamp}_${randomId}.${extension}`);
   }
 
-  private buildFFmpegCommand(inputPath: string, srtPath: string, outputPath: string, style: SubtitleStyle): string {
+  /**
+   * O original das legendas bilíngues segue a escala e a área segura do vídeo; no topo da tela,
+   * a margem vem da borda de cima
+   */
+  private layoutBilingual(
+    bilingual: BilingualOptions,
+    mainStyle: SubtitleStyle,
+    video: VideoDimensions,
+    layout: SubtitleLayout
+  ): BilingualOptions {
+    const original = bilingual.style || { ...mainStyle, fontSize: Math.round(mainStyle.fontSize * 0.75), italic: true };
+    const positioned = bilingual.position === 'top' ? { ...original, alignment: 'top-center' as const } : original;
+
+    return {
+      ...bilingual,
+      style: this.layoutService.layoutStyle(positioned, video, layout)
+    };
+  }
+
+  /**
+   * Sem `style`, os estilos vêm do próprio arquivo (ASS). A legenda é gravada antes da
+   * redução de resolução do perfil, para encolher junto com o vídeo.
+   */
+  private buildFFmpegCommand(
+    inputPath: string,
+    srtPath: string,
+    outputPath: string,
+    profile: EncodingProfile,
+    style?: SubtitleStyle,
+    video?: VideoDimensions
+  ): string {
     // Escapar caminhos para shell
     const escapedInputPath = `"${inputPath}"`;
     const escapedSrtPath = `"${srtPath}"`;
     const escapedOutputPath = `"${outputPath}"`;
 
-    // Converter cores hex para BGR (FFmpeg format)
-    const fontColorBGR = this.hexToBGR(style.fontColor);
-    const backgroundColorBGR = this.hexToBGR(style.backgroundColor);
-    const borderColorBGR = this.hexToBGR(style.borderColor);
-
-    const subtitleFilter = `subtitles=${escapedSrtPath}:force_style='FontName=${style.fontName},FontSize=${style.fontSize},PrimaryColour=${fontColorBGR},BackColour=${backgroundColorBGR},BorderWidth=${style.borderWidth},OutlineColour=${borderColorBGR},MarginV=${style.marginVertical}'`;
+    const subtitleFilter = style
+      ? `subtitles=${escapedSrtPath}:force_style='${this.buildForceStyle(style)}'`
+      : `subtitles=${escapedSrtPath}`;
+    const filters = [subtitleFilter, scaleFilter(profile, video)].filter(Boolean).join(',');
 
     return [
       'ffmpeg',
       '-i', escapedInputPath,
-      '-vf', `"${subtitleFilter}"`,
-      '-c:a', 'copy',
-      '-c:v', 'libx264',
-      '-preset', 'medium',
-      '-crf', '23',
+      // Somente áudio: não há quadro onde gravar a legenda
+      ...(profile.video ? ['-vf', `"${filters}"`] : []),
+      ...encodingArgs(profile),
       '-y',
       escapedOutputPath
     ].join(' ');
   }
 
-  private hexToBGR(hex: string): string {
-    // Remove # se presente
-    hex = hex.replace('#', '');
-    
-    // Converte para RGB
-    const r = parseInt(hex.substr(0, 2), 16);
-    const g = parseInt(hex.substr(2, 2), 16);
-    const b = parseInt(hex.substr(4, 2), 16);
-    
-    // Converte para formato BGR do FFmpeg (&HBBGGRR&)
-    return `&H${b.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${r.toString(16).padStart(2, '0')}&`;
+  /**
+   * Muxa as legendas como faixas: mov_text no MP4, SRT ou ASS (convertido pelo FFmpeg) no MKV,
+   * WebVTT no WebM. Vídeo e áudio são copiados, ou recodificados com o perfil pedido;
+   * cada faixa recebe idioma, título e disposição.
+   */
+  private buildSoftSubtitlesCommand(
+    inputPath: string,
+    tracks: SubtitleTrack[],
+    srtPaths: string[],
+    outputPath: string,
+    options: SoftSubtitleOptions,
+    video?: VideoDimensions
+  ): string {
+    const codec = options.format || { mp4: 'mov_text', mkv: 'srt', webm: 'webvtt' }[options.container || 'mp4'];
+    const scale = options.profile && scaleFilter(options.profile, video);
+    const encoding = options.profile
+      ? [...(scale ? ['-vf', `"${scale}"`] : []), ...encodingArgs(options.profile)]
+      : ['-c:v', 'copy', '-c:a', 'copy'];
+
+    const inputs = srtPaths.flatMap(srtPath => ['-i', `"${srtPath}"`]);
+    const maps = srtPaths.flatMap((_, index) => ['-map', `${index + 1}:0`]);
+    const metadata = tracks.flatMap((track, index) => [
+      `-metadata:s:s:${index}`, `language=${getLanguageIso6392(track.language)}`,
+      `-metadata:s:s:${index}`, `title="${(track.title || getLanguageName(track.language)).replace(/"/g, '')}"`,
+      `-disposition:s:${index}`, track.language === options.defaultLanguage ? 'default' : '0'
+    ]);
+
+    return [
+      'ffmpeg',
+      '-i', `"${inputPath}"`,
+      ...inputs,
+      '-map', '0:v?',
+      '-map', '0:a?',
+      ...maps,
+      ...encoding,
+      '-c:s', codec,
+      ...metadata,
+      '-y',
+      `"${outputPath}"`
+    ].join(' ');
+  }
+
+  /**
+   * Converte o estilo para os campos de estilo ASS aceitos pelo force_style do libass
+   */
+  private buildForceStyle(style: SubtitleStyle): string {
+    return Object.entries(assStyleFields(style))
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',');
   }
 }
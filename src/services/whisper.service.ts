@@ -2,9 +2,22 @@ import { exec } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { DiarizationOptions, DiarizationService, SpeakerSummary } from './diarization.service';
+import { SimulatedEngine } from './engines/simulated.engine';
+import { EngineTranscription, LanguageDetection, TranscriptionEngine } from './engines/transcription-engine';
+import { WhisperCppEngine } from './engines/whisper-cpp.engine';
+import { SpeechRegion, VadOptions, VadService } from './vad.service';
+import { mapWithConcurrency } from '../utils/concurrency';
 
 const execAsync = promisify(exec);
 
+export interface TranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+  probability: number;
+}
+
 export interface TranscriptionSegment {
   id: number;
   seek?: number;
@@ -16,6 +29,9 @@ export interface TranscriptionSegment {
   avg_logprob?: number;
   compression_ratio?: number;
   no_speech_prob?: number;
+  words?: TranscriptionWord[];
+  speaker?: string;
+  speakerName?: string;
 }
 
 export interface TranscriptionResult {
@@ -23,6 +39,9 @@ export interface TranscriptionResult {
   segments: TranscriptionSegment[];
   language?: string;
   duration?: number;
+  speechRegions?: SpeechRegion[];
+  speakers?: SpeakerSummary[];
+  languageDetection?: LanguageDetection;
 }
 
 export interface TranscriptionContext {
@@ -31,15 +50,82 @@ export interface TranscriptionContext {
   topic?: string;
   speaker?: string;
   language?: string;
+  temperature?: number;
+  wordTimestamps?: boolean;
+  vad?: VadOptions;
+  diarization?: DiarizationOptions;
+}
+
+interface AudioChunk {
+  index: number;
+  start: number;
+  duration: number;
+}
+
+interface ChunkTranscription {
+  chunk: AudioChunk;
+  segments: TranscriptionSegment[];
+  language?: string;
 }
 
 export class WhisperService {
   private readonly defaultModel: string;
   private readonly defaultLanguage: string;
+  private readonly engineSetting: string;
+  private readonly chunkSeconds: number;
+  private readonly chunkOverlapSeconds: number;
+  private readonly chunkConcurrency: number;
+  private readonly simulatedEngine: SimulatedEngine;
+  private readonly vadService: VadService;
+  private readonly diarizationService: DiarizationService;
+  private enginePromise?: Promise<TranscriptionEngine>;
 
   constructor() {
     this.defaultModel = process.env.WHISPER_MODEL || 'base';
     this.defaultLanguage = process.env.WHISPER_LANGUAGE || 'auto';
+    this.engineSetting = process.env.WHISPER_ENGINE || 'auto';
+    // Valores inválidos voltam ao padrão: janela 0 nunca avançaria e concorrência NaN não iniciaria nenhuma tarefa
+    this.chunkSeconds = this.parseEnvNumber(process.env.WHISPER_CHUNK_SECONDS, 300, false);
+    this.chunkOverlapSeconds = this.parseEnvNumber(process.env.WHISPER_CHUNK_OVERLAP_SECONDS, 5, true);
+    this.chunkConcurrency = Math.floor(this.parseEnvNumber(process.env.WHISPER_CHUNK_CONCURRENCY, 2, false)) || 1;
+    this.simulatedEngine = new SimulatedEngine();
+    this.vadService = new VadService();
+    this.diarizationService = new DiarizationService();
+  }
+
+  /**
+   * Resolve o motor de transcrição configurado em WHISPER_ENGINE
+   * (auto | whisper-cpp | simulation). O resultado é memorizado.
+   */
+  getEngine(): Promise<TranscriptionEngine> {
+    if (!this.enginePromise) {
+      this.enginePromise = this.resolveEngine();
+    }
+    return this.enginePromise;
+  }
+
+  private async resolveEngine(): Promise<TranscriptionEngine> {
+    if (this.engineSetting === 'simulation') {
+      console.log('🎭 Motor de transcrição: simulação');
+      return this.simulatedEngine;
+    }
+
+    const whisperCpp = new WhisperCppEngine(this.defaultModel);
+    const available = await whisperCpp.isAvailable();
+
+    if (available) {
+      console.log(`✅ Motor de transcrição: whisper.cpp (modelo ${this.defaultModel})`);
+      return whisperCpp;
+    }
+
+    if (this.engineSetting === 'whisper-cpp') {
+      // Configuração explícita: não mascarar o problema com a simulação
+      this.enginePromise = undefined;
+      throw new Error('whisper.cpp configurado em WHISPER_ENGINE, mas não está disponível');
+    }
+
+    console.warn('⚠️ whisper.cpp não está disponível, usando modo simulação');
+    return this.simulatedEngine;
   }
 
   /**
@@ -57,20 +143,57 @@ export class WhisperService {
         throw new Error(`Arquivo não encontrado: ${filePath}`);
       }
 
-      // Garantir que temos um arquivo de áudio
-      const audioPath = await this.ensureAudioFormat(filePath);
+      const engine = await this.getEngine();
+
+      // Garantir que temos um arquivo de áudio no formato que o motor aceita
+      const audioPath = await this.ensureAudioFormat(filePath, engine.requiresPcm16k);
       
       // Obter duração real do áudio
       const duration = await this.getAudioDuration(audioPath);
       
-      // Simular transcrição mais realista
-      const segments = await this.simulateWhisperTranscription(audioPath, duration, context);
+      const engineContext: TranscriptionContext = {
+        ...context,
+        language: context?.language || this.defaultLanguage
+      };
+
+      // Detectar regiões de fala (VAD) para guiar a segmentação
+      const speechRegions = await this.vadService.detectSpeechRegions(audioPath, duration, context?.vad);
+
+      // Com idioma "auto", identificar pelo áudio a partir da primeira fala
+      let languageDetection: LanguageDetection | null = null;
+      if (engineContext.language === 'auto') {
+        languageDetection = await engine.detectLanguage(audioPath, speechRegions?.[0]?.start ?? 0);
+
+        if (languageDetection) {
+          console.log(`🌐 Idioma detectado: ${languageDetection.language} (p = ${languageDetection.probability.toFixed(2)})`);
+          engineContext.language = languageDetection.language;
+        }
+      }
+
+      // Arquivos longos são divididos em janelas sobrepostas
+      const transcription = duration > this.chunkSeconds
+        ? await this.transcribeInChunks(engine, audioPath, duration, engineContext, speechRegions)
+        : await engine.transcribe(audioPath, duration, engineContext, speechRegions || undefined);
+      let segments = speechRegions
+        ? this.applySpeechRegions(transcription.segments, speechRegions)
+        : transcription.segments;
+
+      // Rotular falantes por segmento (S1, S2...)
+      let speakers: SpeakerSummary[] | undefined;
+      if (context?.diarization?.enabled) {
+        const diarization = await this.diarizationService.diarize(audioPath, segments, context.diarization);
+        segments = diarization.segments;
+        speakers = diarization.speakers;
+      }
       
       const result: TranscriptionResult = {
         text: segments.map(s => s.text).join(' '),
         segments: segments,
-        language: context?.language || 'pt',
-        duration: duration
+        language: languageDetection?.language || transcription.language || context?.language || 'pt',
+        duration: duration,
+        speechRegions: speechRegions || undefined,
+        speakers,
+        languageDetection: languageDetection || undefined
       };
 
       console.log(`✅ Transcrição concluída: ${result.segments.length} segmentos (${duration}s)`);
@@ -88,12 +211,219 @@ export class WhisperService {
     }
   }
 
+  /**
+   * Transcreve áudio longo em janelas sobrepostas com paralelismo limitado
+   * e une os segmentos em uma única linha do tempo
+   */
+  private async transcribeInChunks(
+    engine: TranscriptionEngine,
+    audioPath: string,
+    duration: number,
+    context: TranscriptionContext,
+    speechRegions: SpeechRegion[] | null
+  ): Promise<EngineTranscription> {
+    const chunks = this.planChunks(duration);
+    console.log(`🧩 Dividindo ${duration.toFixed(2)}s em ${chunks.length} janelas (paralelismo ${this.chunkConcurrency})`);
+
+    const results = await mapWithConcurrency(chunks, this.chunkConcurrency, async (chunk): Promise<ChunkTranscription> => {
+      const chunkPath = await this.extractAudioChunk(audioPath, chunk);
+
+      try {
+        const chunkRegions = speechRegions
+          ? this.vadService.sliceRegions(speechRegions, chunk.start, chunk.duration)
+          : undefined;
+        const transcription = await engine.transcribe(chunkPath, chunk.duration, context, chunkRegions);
+        console.log(`✅ Janela ${chunk.index + 1}/${chunks.length} transcrita (${transcription.segments.length} segmentos)`);
+
+        return {
+          chunk,
+          segments: transcription.segments.map(segment => this.offsetSegment(segment, chunk.start)),
+          language: transcription.language
+        };
+      } finally {
+        if (fs.existsSync(chunkPath)) {
+          fs.unlinkSync(chunkPath);
+        }
+      }
+    });
+
+    return {
+      segments: this.stitchChunks(results),
+      language: this.mostFrequent(results.map(result => result.language))
+    };
+  }
+
+  /**
+   * Ajusta os segmentos às regiões de fala: descarta os que caem inteiros em
+   * silêncio, recorta as bordas e define no_speech_prob pela fração sem fala
+   */
+  private applySpeechRegions(segments: TranscriptionSegment[], regions: SpeechRegion[]): TranscriptionSegment[] {
+    const adjusted: TranscriptionSegment[] = [];
+
+    for (const segment of segments) {
+      const overlapping = regions.filter(region => region.end > segment.start && region.start < segment.end);
+      if (overlapping.length === 0) {
+        continue;
+      }
+
+      const start = Math.max(segment.start, overlapping[0].start);
+      const end = Math.min(segment.end, overlapping[overlapping.length - 1].end);
+      const speechRatio = this.vadService.speechRatio(segment.start, segment.end, regions);
+
+      adjusted.push({
+        ...segment,
+        id: adjusted.length,
+        start: parseFloat(start.toFixed(2)),
+        end: parseFloat(end.toFixed(2)),
+        no_speech_prob: parseFloat((1 - speechRatio).toFixed(3))
+      });
+    }
+
+    const dropped = segments.length - adjusted.length;
+    if (dropped > 0) {
+      console.log(`🔇 ${dropped} segmentos descartados por estarem em silêncio`);
+    }
+
+    return adjusted;
+  }
+
+  /**
+   * Número positivo da configuração (ou zero, se `allowZero`); qualquer outro valor usa o padrão
+   */
+  private parseEnvNumber(value: string | undefined, fallback: number, allowZero: boolean): number {
+    const parsed = parseFloat(value ?? '');
+    if (!Number.isFinite(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+      if (value !== undefined && value !== '') {
+        console.warn(`⚠️ Valor de configuração inválido "${value}", usando ${fallback}`);
+      }
+      return fallback;
+    }
+    return parsed;
+  }
+
+  /**
+   * Calcula as janelas: cada uma começa `chunkSeconds - overlap` após a anterior
+   */
+  private planChunks(duration: number): AudioChunk[] {
+    const overlap = Math.min(this.chunkOverlapSeconds, this.chunkSeconds / 2);
+    const step = this.chunkSeconds - overlap;
+    const chunks: AudioChunk[] = [];
+
+    for (let start = 0, index = 0; start < duration; start += step, index++) {
+      const chunkDuration = Math.min(this.chunkSeconds, duration - start);
+      chunks.push({ index, start, duration: chunkDuration });
+
+      if (start + chunkDuration >= duration) {
+        break;
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Extrai uma janela do áudio como WAV PCM 16 kHz mono
+   */
+  private async extractAudioChunk(audioPath: string, chunk: AudioChunk): Promise<string> {
+    const baseName = path.basename(audioPath, path.extname(audioPath) || '');
+    const chunkPath = path.join(path.dirname(audioPath), `${baseName}_chunk_${chunk.index}.wav`);
+
+    const command = `ffmpeg -ss ${chunk.start.toFixed(3)} -t ${chunk.duration.toFixed(3)} -i "${audioPath}" -vn -acodec pcm_s16le -ac 1 -ar 16000 -f wav -y "${chunkPath}"`;
+
+    try {
+      await execAsync(command);
+      return chunkPath;
+    } catch (error: any) {
+      throw new Error(`Falha ao extrair janela ${chunk.index + 1}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Desloca tempos do segmento (e das palavras) para a linha do tempo global
+   */
+  private offsetSegment(segment: TranscriptionSegment, offset: number): TranscriptionSegment {
+    const shift = (value: number) => parseFloat((value + offset).toFixed(2));
+
+    return {
+      ...segment,
+      seek: Math.floor((segment.start + offset) * 100),
+      start: shift(segment.start),
+      end: shift(segment.end),
+      words: segment.words?.map(word => ({ ...word, start: shift(word.start), end: shift(word.end) }))
+    };
+  }
+
+  /**
+   * Une as janelas cortando cada sobreposição no seu ponto médio e
+   * descartando segmentos repetidos nas bordas
+   */
+  private stitchChunks(results: ChunkTranscription[]): TranscriptionSegment[] {
+    const stitched: TranscriptionSegment[] = [];
+
+    results.forEach((result, i) => {
+      const previous = results[i - 1];
+      const next = results[i + 1];
+
+      // Limites de posse: metade da sobreposição para cada lado
+      const ownStart = previous
+        ? (result.chunk.start + previous.chunk.start + previous.chunk.duration) / 2
+        : 0;
+      const ownEnd = next
+        ? (next.chunk.start + result.chunk.start + result.chunk.duration) / 2
+        : Infinity;
+
+      for (const segment of result.segments) {
+        const midpoint = (segment.start + segment.end) / 2;
+        if (midpoint < ownStart || midpoint >= ownEnd) {
+          continue;
+        }
+
+        const last = stitched[stitched.length - 1];
+        if (last && this.isDuplicateSegment(last, segment)) {
+          continue;
+        }
+
+        stitched.push(segment);
+      }
+    });
+
+    return stitched.map((segment, index) => ({ ...segment, id: index }));
+  }
+
+  private isDuplicateSegment(a: TranscriptionSegment, b: TranscriptionSegment): boolean {
+    const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    const overlaps = b.start < a.end;
+    return overlaps && normalize(a.text) === normalize(b.text);
+  }
+
+  private mostFrequent(values: Array<string | undefined>): string | undefined {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    let best: string | undefined;
+    counts.forEach((count, value) => {
+      if (!best || count > counts.get(best)!) {
+        best = value;
+      }
+    });
+    return best;
+  }
+
   /**
    * Garante que o arquivo está em formato de áudio
    */
-  private async ensureAudioFormat(filePath: string): Promise<string> {
+  private async ensureAudioFormat(filePath: string, requiresPcm16k: boolean = false): Promise<string> {
     const extension = path.extname(filePath).toLowerCase();
     
+    // Motores reais precisam de WAV PCM 16 kHz mono, então sempre convertemos
+    if (requiresPcm16k) {
+      return await this.extractAudioFromVideo(filePath);
+    }
+
     // Se já é um arquivo de áudio, retornar como está
     if (['.wav', '.mp3', '.m4a', '.flac', '.ogg'].includes(extension)) {
       return filePath;
@@ -150,7 +480,7 @@ export class WhisperService {
       }
       
       console.log(`⏱️ Duração do arquivo: ${duration.toFixed(2)}s`);
-      return Math.max(1, Math.min(duration, 600)); // Entre 1s e 10min
+      return Math.max(1, duration); // Arquivos longos são processados em janelas
       
     } catch (error) {
       console.warn('⚠️ Erro ao obter duração, usando estimativa baseada no tamanho');
@@ -164,140 +494,6 @@ export class WhisperService {
     }
   }
 
-  /**
-   * Simula transcrição do Whisper com mais detalhes
-   */
-  private async simulateWhisperTranscription(
-    audioPath: string, 
-    duration: number,
-    context?: TranscriptionContext
-  ): Promise<TranscriptionSegment[]> {
-    console.log(`🎙️ Simulando transcrição Whisper: ${audioPath} (${duration}s)`);
-    
-    try {
-      // Gerar segmentos baseados na duração real
-      const segmentDuration = Math.max(2, Math.min(5, duration / 8)); // Segmentos adaptativos
-      const numSegments = Math.ceil(duration / segmentDuration);
-      
-      const segments: TranscriptionSegment[] = [];
-      
-      // Gerar textos contextuais baseados nos parâmetros
-      const texts = this.generateContextualTexts(context, numSegments);
-      
-      for (let i = 0; i < numSegments; i++) {
-        const start = i * segmentDuration;
-        const end = Math.min((i + 1) * segmentDuration, duration);
-        
-        segments.push({
-          id: i,
-          seek: Math.floor(start * 100),
-          start: parseFloat(start.toFixed(2)),
-          end: parseFloat(end.toFixed(2)),
-          text: texts[i] || `Segmento ${i + 1} da transcrição`,
-          tokens: this.generateMockTokens(),
-          temperature: 0.0,
-          avg_logprob: -0.3 - (Math.random() * 0.2),
-          compression_ratio: 2.0 + (Math.random() * 1.0),
-          no_speech_prob: Math.random() * 0.1
-        });
-      }
-
-      console.log(`📝 Gerados ${segments.length} segmentos para ${duration}s de áudio`);
-      return segments;
-      
-    } catch (error: any) {
-      console.error('❌ Erro na simulação Whisper:', error);
-      
-      // Fallback para segmentos básicos
-      return this.generateFallbackSegments(duration);
-    }
-  }
-
-  /**
-   * Gera textos contextuais mais realistas
-   */
-  private generateContextualTexts(context?: TranscriptionContext, numSegments: number = 6): string[] {
-    const texts: string[] = [];
-    
-    // Textos base dependendo do contexto
-    if (context?.topic) {
-      texts.push(`Vamos falar sobre ${context.topic} neste vídeo.`);
-      texts.push(`O tema ${context.topic} é muito importante para entendermos.`);
-      texts.push(`Continuando nossa discussão sobre ${context.topic}.`);
-    }
-    
-    if (context?.speaker) {
-      texts.push(`${context.speaker} está apresentando este conteúdo.`);
-      texts.push(`Como ${context.speaker} mencionou anteriormente.`);
-    }
-    
-    if (context?.prompt) {
-      texts.push(`${context.prompt} - vamos explorar este assunto.`);
-    }
-    
-    // Textos genéricos para completar
-    const genericTexts = [
-      "Este é um exemplo de conteúdo transcrito do vídeo.",
-      "A qualidade da transcrição depende da clareza do áudio.",
-      "O sistema está processando o áudio e gerando as legendas.",
-      "Cada segmento corresponde a um período de tempo específico.",
-      "A transcrição automática facilita a acessibilidade do conteúdo.",
-      "Tecnologias de reconhecimento de voz estão em constante evolução.",
-      "É importante revisar as transcrições para garantir precisão.",
-      "O processamento de áudio pode incluir remoção de ruídos.",
-      "Legendas auxiliam pessoas com deficiência auditiva.",
-      "A sincronização entre áudio e texto é fundamental."
-    ];
-    
-    // Preencher até o número necessário de segmentos
-    while (texts.length < numSegments) {
-      const randomText = genericTexts[texts.length % genericTexts.length];
-      texts.push(randomText);
-    }
-    
-    return texts.slice(0, numSegments);
-  }
-
-  /**
-   * Gera tokens mockados para simular saída do Whisper
-   */
-  private generateMockTokens(): number[] {
-    const tokenCount = 5 + Math.floor(Math.random() * 10);
-    const tokens: number[] = [];
-    
-    for (let i = 0; i < tokenCount; i++) {
-      tokens.push(100 + Math.floor(Math.random() * 5000));
-    }
-    
-    return tokens;
-  }
-
-  /**
-   * Gera segmentos de fallback em caso de erro
-   */
-  private generateFallbackSegments(duration: number): TranscriptionSegment[] {
-    const segmentDuration = Math.max(3, duration / 3);
-    const segments: TranscriptionSegment[] = [];
-    
-    for (let i = 0; i < 3; i++) {
-      const start = i * segmentDuration;
-      const end = Math.min((i + 1) * segmentDuration, duration);
-      
-      segments.push({
-        id: i,
-        start: parseFloat(start.toFixed(2)),
-        end: parseFloat(end.toFixed(2)),
-        text: `Segmento ${i + 1}: transcrição de exemplo para demonstração da funcionalidade.`,
-        temperature: 0.0,
-        avg_logprob: -0.5,
-        compression_ratio: 2.0,
-        no_speech_prob: 0.1
-      });
-    }
-    
-    return segments;
-  }
-
   /**
    * Limpa arquivos temporários de áudio
    */
@@ -317,12 +513,8 @@ export class WhisperService {
    */
   async checkWhisperAvailability(): Promise<boolean> {
     try {
-      // TODO: Implementar verificação real do Whisper
-      // const { stdout } = await execAsync('whisper --help');
-      // return stdout.includes('Whisper');
-      
-      // Por enquanto, sempre retorna true (modo simulação melhorado)
-      return true;
+      const engine = await this.getEngine();
+      return engine.name !== this.simulatedEngine.name && await engine.isAvailable();
     } catch (error) {
       console.warn('⚠️ Whisper não está disponível, usando modo simulação');
       return false;
@@ -0,0 +1,25 @@
+/**
+ * Executa `worker` sobre todos os itens com no máximo `limit` tarefas simultâneas,
+ * preservando a ordem dos resultados
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Limite inválido (NaN, 0, negativo) vira execução sequencial, nunca zero tarefas
+  const workers = Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : 1;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(workers, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
@@ -0,0 +1,140 @@
+export const ENCODING_PROFILE_IDS = ['web-h264', 'webm-vp9', 'archive-hevc', 'small-preview', 'audio-only'] as const;
+
+export type EncodingProfileId = typeof ENCODING_PROFILE_IDS[number];
+
+export type OutputContainer = 'mp4' | 'mkv' | 'webm' | 'm4a';
+
+export interface EncodingProfile {
+  id: EncodingProfileId;
+  name: string;
+  description: string;
+  container: OutputContainer;
+  mimeType: string;
+  video?: {                   // Sem vídeo: só o áudio é gravado
+    codec: 'libx264' | 'libx265' | 'libvpx-vp9';
+    crf?: number;
+    bitrate?: string;         // Limite de bitrate (ex.: "1M"); no VP9, sem ele o CRF é de qualidade constante
+    preset?: string;          // -preset do x264/x265; -deadline do VP9
+    maxSize?: number;         // Limite do lado menor (480 = 480p também no vídeo vertical)
+  };
+  audio: {
+    codec: 'copy' | 'aac' | 'libopus';
+    bitrate?: string;
+  };
+}
+
+export const ENCODING_PROFILES: Record<EncodingProfileId, EncodingProfile> = {
+  'web-h264': {
+    id: 'web-h264',
+    name: 'Web H.264',
+    description: 'MP4 H.264/AAC compatível com navegadores e players, com início rápido (faststart)',
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    video: { codec: 'libx264', crf: 23, preset: 'medium' },
+    audio: { codec: 'aac', bitrate: '128k' }
+  },
+  'webm-vp9': {
+    id: 'webm-vp9',
+    name: 'WebM VP9',
+    description: 'WebM VP9/Opus para navegadores, menor que o H.264 na mesma qualidade',
+    container: 'webm',
+    mimeType: 'video/webm',
+    video: { codec: 'libvpx-vp9', crf: 32, preset: 'good' },
+    audio: { codec: 'libopus', bitrate: '96k' }
+  },
+  'archive-hevc': {
+    id: 'archive-hevc',
+    name: 'Arquivo HEVC',
+    description: 'MKV H.265 de alta qualidade para arquivamento, com o áudio original',
+    container: 'mkv',
+    mimeType: 'video/x-matroska',
+    video: { codec: 'libx265', crf: 20, preset: 'slow' },
+    audio: { codec: 'copy' }
+  },
+  'small-preview': {
+    id: 'small-preview',
+    name: 'Prévia leve',
+    description: 'MP4 H.264 em até 480p e bitrate limitado, para revisão rápida',
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    video: { codec: 'libx264', crf: 30, bitrate: '800k', preset: 'veryfast', maxSize: 480 },
+    audio: { codec: 'aac', bitrate: '64k' }
+  },
+  'audio-only': {
+    id: 'audio-only',
+    name: 'Somente áudio',
+    description: 'Áudio AAC em M4A, sem vídeo (as legendas ficam nos arquivos para download)',
+    container: 'm4a',
+    mimeType: 'audio/mp4',
+    audio: { codec: 'aac', bitrate: '192k' }
+  }
+};
+
+export function isEncodingProfile(value: any): value is EncodingProfileId {
+  return ENCODING_PROFILE_IDS.includes(value);
+}
+
+/**
+ * Argumentos de codificação do FFmpeg (vídeo, áudio e container), sem filtros
+ */
+export function encodingArgs(profile: EncodingProfile): string[] {
+  const { video, audio } = profile;
+  const args: string[] = [];
+
+  if (!video) {
+    args.push('-vn');
+  } else {
+    args.push('-c:v', video.codec);
+
+    if (video.codec === 'libvpx-vp9') {
+      // No VP9, -b:v 0 faz o CRF valer como qualidade constante
+      args.push('-crf', String(video.crf ?? 32), '-b:v', video.bitrate || '0', '-deadline', video.preset || 'good', '-row-mt', '1');
+    } else {
+      if (video.preset) {
+        args.push('-preset', video.preset);
+      }
+      if (video.crf !== undefined) {
+        args.push('-crf', String(video.crf));
+      }
+      if (video.bitrate) {
+        // CRF com teto de bitrate: buffer de duas vezes o limite
+        args.push('-maxrate', video.bitrate, '-bufsize', `${parseInt(video.bitrate, 10) * 2}${video.bitrate.replace(/^\d+/, '')}`);
+      }
+      args.push('-pix_fmt', 'yuv420p');
+    }
+  }
+
+  args.push('-c:a', audio.codec);
+  if (audio.bitrate && audio.codec !== 'copy') {
+    args.push('-b:a', audio.bitrate);
+  }
+
+  if (profile.container === 'mp4' || profile.container === 'm4a') {
+    args.push('-movflags', '+faststart');
+  }
+
+  return args;
+}
+
+/**
+ * Filtro de redução para o limite do perfil, mantendo a proporção e dimensões pares.
+ * Retorna undefined se o vídeo já couber no limite.
+ */
+export function scaleFilter(profile: EncodingProfile, dimensions?: { width: number; height: number }): string | undefined {
+  const maxSize = profile.video?.maxSize;
+  if (!maxSize) {
+    return undefined;
+  }
+
+  if (!dimensions) {
+    // Sem as dimensões, limita pela altura
+    return `scale=-2:'min(${maxSize},ih)'`;
+  }
+
+  const shortSide = Math.min(dimensions.width, dimensions.height);
+  if (shortSide <= maxSize) {
+    return undefined;
+  }
+
+  return dimensions.width >= dimensions.height ? `scale=-2:${maxSize}` : `scale=${maxSize}:-2`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Converte código de idioma para nome completo (usado nos prompts dos LLMs)
+ */
+export function getLanguageName(languageCode: string): string {
+  const languages: Record<string, string> = {
+    'pt': 'Portuguese',
+    'en': 'English',
+    'es': 'Spanish',
+    'fr': 'French',
+    'de': 'German',
+    'it': 'Italian',
+    'ja': 'Japanese',
+    'ko': 'Korean',
+    'zh': 'Chinese',
+    'ru': 'Russian',
+    'ar': 'Arabic',
+    'hi': 'Hindi',
+    'auto': 'the detected source language' // idioma desconhecido: o modelo identifica
+  };
+
+  return languages[languageCode] || 'Portuguese';
+}
+
+/**
+ * Código ISO 639-2 usado nos metadados de faixas (MP4/MKV)
+ */
+export function getLanguageIso6392(languageCode: string): string {
+  const codes: Record<string, string> = {
+    'pt': 'por',
+    'en': 'eng',
+    'es': 'spa',
+    'fr': 'fra',
+    'de': 'deu',
+    'it': 'ita',
+    'ja': 'jpn',
+    'ko': 'kor',
+    'zh': 'zho',
+    'ru': 'rus',
+    'ar': 'ara',
+    'hi': 'hin'
+  };
+
+  return codes[languageCode] || 'und';
+}
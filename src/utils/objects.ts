@@ -0,0 +1,20 @@
+/**
+ * Cópia do objeto sem os campos undefined, para mesclar sobre os padrões com spread
+ * sem que um campo ausente da requisição apague o valor padrão
+ */
+export function definedFields<T extends object>(obj: T): Partial<T> {
+  const result: Partial<T> = {};
+  for (const key of Object.keys(obj) as Array<keyof T>) {
+    if (obj[key] !== undefined) {
+      result[key] = obj[key];
+    }
+  }
+  return result;
+}
+
+/**
+ * Atribui um campo escolhido em tempo de execução mantendo a checagem de tipo do valor
+ */
+export function setField<T, K extends keyof T>(obj: T, key: K, value: T[K]): void {
+  obj[key] = value;
+}
@@ -0,0 +1,263 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface ResilienceOptions {
+  maxConcurrency: number;    // Chamadas simultâneas ao serviço
+  timeoutMs: number;         // Tempo máximo de cada tentativa
+  retries: number;           // Novas tentativas após falhas transitórias
+  retryBaseDelayMs: number;  // Base do backoff exponencial (com jitter)
+  failureThreshold: number;  // Falhas seguidas que abrem o circuito
+  cooldownMs: number;        // Tempo com o circuito aberto antes de testar de novo
+}
+
+export interface ResilienceStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastError?: string;
+  active: number;
+  queued: number;
+  totalCalls: number;
+  totalFailures: number;
+  options: ResilienceOptions;
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, retryAt: Date) {
+    super(`Circuito de ${name} aberto até ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`${name} não respondeu em ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Lê as opções de um serviço do ambiente (<PREFIXO>_MAX_CONCURRENCY, _TIMEOUT_MS, _RETRIES);
+ * o circuito usa CIRCUIT_BREAKER_THRESHOLD e CIRCUIT_BREAKER_COOLDOWN_MS
+ */
+export function resilienceOptionsFromEnv(prefix: string, defaults: Partial<ResilienceOptions> = {}): ResilienceOptions {
+  const read = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] || '', 10);
+    return isNaN(value) ? fallback : value;
+  };
+
+  return {
+    maxConcurrency: read(`${prefix}_MAX_CONCURRENCY`, defaults.maxConcurrency ?? 4),
+    timeoutMs: read(`${prefix}_TIMEOUT_MS`, defaults.timeoutMs ?? 10000),
+    retries: read(`${prefix}_RETRIES`, defaults.retries ?? 2),
+    retryBaseDelayMs: read('RETRY_BASE_DELAY_MS', defaults.retryBaseDelayMs ?? 500),
+    failureThreshold: read('CIRCUIT_BREAKER_THRESHOLD', defaults.failureThreshold ?? 3),
+    cooldownMs: read('CIRCUIT_BREAKER_COOLDOWN_MS', defaults.cooldownMs ?? 30000)
+  };
+}
+
+/**
+ * Falhas de rede, timeouts, 5xx e 429 são transitórias; outros 4xx não adianta repetir
+ */
+export function isTransientError(error: any): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  const status = error?.response?.status ?? error?.status_code ?? error?.status;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 408 || status === 429;
+  }
+
+  return true;
+}
+
+/**
+ * Limite de concorrência, timeout, retentativas com jitter e circuit breaker
+ * para as chamadas a um serviço externo
+ */
+export class ResiliencePolicy {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt?: Date;
+  private lastError?: string;
+  private probeInFlight = false;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private totalCalls = 0;
+  private totalFailures = 0;
+
+  constructor(
+    private readonly name: string,
+    private readonly options: ResilienceOptions
+  ) {}
+
+  /**
+   * Cada tentativa recebe um AbortSignal, abortado quando o tempo dela se esgota:
+   * o provedor deve repassá-lo à requisição para que ela não continue em segundo plano
+   */
+  async execute<T>(operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      let isProbe = false;
+      try {
+        // O circuito pode ter aberto enquanto a chamada esperava na fila
+        isProbe = this.checkCircuit();
+        this.totalCalls++;
+
+        const controller = new AbortController();
+        const result = await this.withTimeout(operation(controller.signal), controller);
+        this.recordSuccess();
+        return result;
+
+      } catch (error: any) {
+        if (error instanceof CircuitOpenError) {
+          throw error;
+        }
+
+        // Erro não transitório (ex.: 400) significa que o serviço respondeu
+        const transient = isTransientError(error);
+        if (transient) {
+          this.recordFailure(error);
+        } else {
+          this.recordSuccess();
+        }
+
+        if (!transient || attempt >= this.options.retries || this.state !== 'closed') {
+          throw error;
+        }
+
+        console.warn(`🔁 ${this.name}: tentativa ${attempt + 1} falhou (${error.message}), tentando novamente`);
+
+      } finally {
+        if (isProbe) {
+          this.probeInFlight = false;
+        }
+        this.release();
+      }
+
+      await this.sleep(this.backoffDelay(attempt));
+    }
+  }
+
+  getStatus(): ResilienceStatus {
+    this.refreshState();
+
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state !== 'closed' ? this.openedAt?.toISOString() : undefined,
+      retryAt: this.state === 'open' ? this.retryAt().toISOString() : undefined,
+      lastError: this.lastError,
+      active: this.active,
+      queued: this.waiting.length,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      options: { ...this.options }
+    };
+  }
+
+  isOpen(): boolean {
+    this.refreshState();
+    return this.state === 'open';
+  }
+
+  /**
+   * Lança CircuitOpenError se o circuito estiver aberto.
+   * Retorna true quando a chamada é a única tentativa de teste (meio-aberto).
+   */
+  private checkCircuit(): boolean {
+    this.refreshState();
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.probeInFlight)) {
+      throw new CircuitOpenError(this.name, this.retryAt());
+    }
+
+    if (this.state === 'half-open') {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() >= this.retryAt().getTime()) {
+      this.state = 'half-open';
+      console.log(`🟡 ${this.name}: circuito meio-aberto, testando o serviço`);
+    }
+  }
+
+  private recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🟢 ${this.name}: circuito fechado, serviço respondeu`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+  }
+
+  private recordFailure(error: any): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    this.lastError = error.message;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      this.state = 'open';
+      this.openedAt = new Date();
+      console.warn(`🔴 ${this.name}: circuito aberto após ${this.consecutiveFailures} falhas, ignorando por ${this.options.cooldownMs}ms`);
+    }
+  }
+
+  private retryAt(): Date {
+    return new Date((this.openedAt?.getTime() ?? Date.now()) + this.options.cooldownMs);
+  }
+
+  private withTimeout<T>(promise: Promise<T>, controller: AbortController): Promise<T> {
+    if (this.options.timeoutMs <= 0) {
+      return promise;
+    }
+
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new TimeoutError(this.name, this.options.timeoutMs);
+        controller.abort(error);
+        reject(error);
+      }, this.options.timeoutMs);
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Backoff exponencial com "full jitter" para não sincronizar as retentativas
+   */
+  private backoffDelay(attempt: number): number {
+    return Math.random() * this.options.retryBaseDelayMs * Math.pow(2, attempt);
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < Math.max(1, this.options.maxConcurrency)) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(() => {
+      this.active++;
+      resolve();
+    }));
+  }
+
+  private release(): void {
+    this.active--;
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,753 @@
+import type { SubtitleAlignment, SubtitleStyle } from '../services/video.service';
+
+export const SUBTITLE_FORMATS = ['srt', 'vtt', 'ass', 'ssa', 'ttml', 'dfxp', 'sbv', 'json'] as const;
+
+export type SubtitleFormat = typeof SUBTITLE_FORMATS[number];
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;             // Quebras de linha com "\n"
+  speaker?: string;
+  originalText?: string;    // Texto no idioma de origem (legendas bilíngues)
+}
+
+export type BilingualPosition = 'above' | 'below' | 'top';
+
+export interface BilingualOptions {
+  position?: BilingualPosition;  // Original acima ou abaixo da tradução, ou no topo da tela (padrão: above)
+  style?: SubtitleStyle;         // Estilo "Original" do ASS (padrão: o principal, menor e em itálico)
+}
+
+export interface SerializeOptions {
+  speakerLabels?: boolean;  // Prefixa "Falante: " no texto (padrão: true)
+  style?: SubtitleStyle;    // Estilo "Default" do ASS/SSA
+  title?: string;           // Título do ASS/SSA
+  language?: string;        // xml:lang do TTML/DFXP
+  bilingual?: BilingualOptions;
+  playRes?: { width: number; height: number };  // Resolução do ASS/SSA (padrão: 384x288)
+}
+
+export const SUBTITLE_FORMAT_INFO: Record<SubtitleFormat, { extension: string; mimeType: string }> = {
+  srt: { extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt' },
+  ass: { extension: 'ass', mimeType: 'text/x-ssa' },
+  ssa: { extension: 'ssa', mimeType: 'text/x-ssa' },
+  ttml: { extension: 'ttml', mimeType: 'application/ttml+xml' },
+  dfxp: { extension: 'dfxp', mimeType: 'application/ttml+xml' },
+  sbv: { extension: 'sbv', mimeType: 'text/plain' },
+  json: { extension: 'json', mimeType: 'application/json' }
+};
+
+/**
+ * Erro de leitura de um arquivo de legenda, com a linha (1-based) em que ocorreu
+ */
+export class SubtitleParseError extends Error {
+  constructor(message: string, public readonly line?: number) {
+    super(line !== undefined ? `Linha ${line}: ${message}` : message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+// Estilo ASS usado quando nenhum SubtitleStyle é informado
+const DEFAULT_ASS_FIELDS: Record<string, string | number> = {
+  FontName: 'Arial',
+  FontSize: 20,
+  PrimaryColour: '&H00FFFFFF&',
+  OutlineColour: '&H00000000&',
+  BackColour: '&H00000000&',
+  Bold: 0,
+  Italic: 0,
+  BorderStyle: 1,
+  Outline: 1,
+  Shadow: 0,
+  Alignment: 2,
+  MarginL: 20,
+  MarginR: 20,
+  MarginV: 20
+};
+
+const ASS_EVENT_FIELDS = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+const TTML_NAMESPACES: Record<'ttml' | 'dfxp', string> = {
+  ttml: 'http://www.w3.org/ns/ttml',
+  dfxp: 'http://www.w3.org/2006/10/ttaf1'
+};
+
+export function isSubtitleFormat(value: any): value is SubtitleFormat {
+  return SUBTITLE_FORMATS.includes(value);
+}
+
+/**
+ * Identifica o formato pela extensão do arquivo ou, sem ela, pelo conteúdo
+ */
+export function detectSubtitleFormat(content: string, fileName?: string): SubtitleFormat | null {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'xml') {
+    return 'ttml';
+  }
+  if (extension && isSubtitleFormat(extension)) {
+    return extension;
+  }
+
+  const text = normalizeContent(content).trimStart();
+  if (/^WEBVTT/.test(text)) {
+    return 'vtt';
+  }
+  if (/^\[Script Info\]/im.test(text) || /^Dialogue:/m.test(text)) {
+    return /^ScriptType:\s*v4\.00\s*$/im.test(text) ? 'ssa' : 'ass';
+  }
+  if (/<tt[\s>]/.test(text)) {
+    return text.includes(TTML_NAMESPACES.dfxp) ? 'dfxp' : 'ttml';
+  }
+  if (/^[[{]/.test(text)) {
+    return 'json';
+  }
+  if (/^\d+:\d{2}:\d{2}\.\d{3},\d+:\d{2}:\d{2}\.\d{3}/m.test(text)) {
+    return 'sbv';
+  }
+  if (/-->/.test(text)) {
+    return 'srt';
+  }
+  return null;
+}
+
+export function parseSubtitles(content: string, format: SubtitleFormat): SubtitleCue[] {
+  const text = normalizeContent(content);
+
+  switch (format) {
+    case 'srt':
+      return parseSRT(text);
+    case 'vtt':
+      return parseVTT(text);
+    case 'ass':
+    case 'ssa':
+      return parseASS(text);
+    case 'ttml':
+    case 'dfxp':
+      return parseTTML(text);
+    case 'sbv':
+      return parseSBV(text);
+    case 'json':
+      return parseJSON(text);
+  }
+}
+
+export function serializeSubtitles(cues: SubtitleCue[], format: SubtitleFormat, options: SerializeOptions = {}): string {
+  switch (format) {
+    case 'srt':
+      return cues.map((cue, index) => [
+        index + 1,
+        `${formatClock(cue.start, ',')} --> ${formatClock(cue.end, ',')}`,
+        cueText(cue, options),
+        ''
+      ].join('\n')).join('\n');
+
+    case 'vtt': {
+      const blocks = cues.map(cue => [
+        `${formatClock(cue.start, '.')} --> ${formatClock(cue.end, '.')}`,
+        // WebVTT marca o falante com <v Nome>
+        cue.speaker && options.speakerLabels !== false
+          ? `<v ${escapeVTT(cue.speaker)}>${escapeVTT(cueText(cue, { ...options, speakerLabels: false }))}`
+          : escapeVTT(cueText(cue, options)),
+        ''
+      ].join('\n'));
+      return ['WEBVTT', '', ...blocks].join('\n');
+    }
+
+    case 'ass':
+    case 'ssa':
+      return serializeASS(cues, format, options);
+
+    case 'ttml':
+    case 'dfxp':
+      return serializeTTML(cues, format, options);
+
+    case 'sbv':
+      return cues.map(cue => [
+        `${formatClock(cue.start, '.', false)},${formatClock(cue.end, '.', false)}`,
+        cueText(cue, options),
+        ''
+      ].join('\n')).join('\n');
+
+    case 'json':
+      return JSON.stringify(cues.map(cue => ({
+        start: cue.start,
+        end: cue.end,
+        text: cue.text,
+        speaker: cue.speaker,
+        originalText: options.bilingual ? cue.originalText : undefined
+      })), null, 2);
+  }
+}
+
+/**
+ * Campos de estilo ASS (nomes do force_style do libass) equivalentes ao SubtitleStyle
+ */
+export function assStyleFields(style: SubtitleStyle): Record<string, string | number> {
+  const shadowColor = style.shadowColor || style.backgroundColor;
+
+  return {
+    FontName: style.fontName,
+    FontSize: style.fontSize,
+    PrimaryColour: toASSColor(style.fontColor),
+    // BorderStyle=3: caixa opaca preenchida com OutlineColour
+    OutlineColour: style.box
+      ? toASSColor(style.backgroundColor, style.boxOpacity)
+      : toASSColor(style.borderColor),
+    BackColour: toASSColor(shadowColor),
+    Bold: style.bold ? -1 : 0,
+    Italic: style.italic ? -1 : 0,
+    BorderStyle: style.box ? 3 : 1,
+    Outline: style.borderWidth,
+    Shadow: style.shadow || 0,
+    Alignment: assAlignment(style.alignment),
+    MarginL: style.marginLeft ?? style.marginHorizontal ?? 20,
+    MarginR: style.marginRight ?? style.marginHorizontal ?? 20,
+    MarginV: style.marginVertical
+  };
+}
+
+/**
+ * Converte #rgb, #rrggbb ou #rrggbbaa para o formato ASS &HAABBGGRR&.
+ * No ASS o alfa é invertido (00 = opaco, FF = transparente).
+ */
+export function toASSColor(hex: string, opacity?: number): string {
+  const { r, g, b, a } = parseHexColor(hex);
+  const alpha = opacity !== undefined ? Math.round(opacity * 255) : a;
+  return `&H${toHex(255 - alpha)}${toHex(b)}${toHex(g)}${toHex(r)}&`;
+}
+
+/**
+ * Alignment do ASS segue o teclado numérico: 1-3 embaixo, 4-6 no meio, 7-9 em cima
+ */
+function assAlignment(alignment: SubtitleAlignment = 'bottom-center'): number {
+  const [vertical, horizontal] = alignment.split('-');
+  const row = { bottom: 0, middle: 3, top: 6 }[vertical] ?? 0;
+  const column = { left: 1, center: 2, right: 3 }[horizontal] ?? 2;
+  return row + column;
+}
+
+function parseSRT(text: string): SubtitleCue[] {
+  const lines = text.split('\n');
+  const cues: SubtitleCue[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    // Número da legenda (opcional)
+    if (/^\d+$/.test(lines[i].trim()) && (lines[i + 1] || '').trim() !== '') {
+      i++;
+    }
+
+    const [start, end] = parseTiming(lines[i], i + 1, /^\s*(\S+)\s*-->\s*(\S+)/);
+    const textLines: string[] = [];
+    for (i++; i < lines.length && lines[i].trim() !== ''; i++) {
+      textLines.push(lines[i].trim());
+    }
+
+    // SRT só tem <i>, <b>, <u> e <font>; alguns arquivos trazem também {\an8}
+    const cueText = textLines.join('\n')
+      .replace(/<\/?(i|b|u|font)\b[^>]*>/gi, '')
+      .replace(/\{\\[^}]*\}/g, '');
+
+    cues.push({ start, end, text: cueText });
+  }
+
+  return cues;
+}
+
+function parseVTT(text: string): SubtitleCue[] {
+  const lines = text.split('\n');
+  if (!/^WEBVTT(\s|$)/.test(lines[0])) {
+    throw new SubtitleParseError('arquivo WebVTT deve começar com "WEBVTT"', 1);
+  }
+
+  const cues: SubtitleCue[] = [];
+  let i = 1;
+
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    // Blocos de comentário, estilo e região não têm legenda
+    if (/^(NOTE|STYLE|REGION)(\s|$)/.test(lines[i]) || (!lines[i].includes('-->') && !lines[i + 1]?.includes('-->'))) {
+      while (i < lines.length && lines[i].trim() !== '') {
+        i++;
+      }
+      continue;
+    }
+
+    // Identificador da legenda (opcional)
+    if (!lines[i].includes('-->')) {
+      i++;
+    }
+
+    const [start, end] = parseTiming(lines[i], i + 1, /^\s*(\S+)\s+-->\s+(\S+)/);
+    const textLines: string[] = [];
+    for (i++; i < lines.length && lines[i].trim() !== ''; i++) {
+      textLines.push(lines[i].trim());
+    }
+
+    let cueText = textLines.join('\n');
+    const voice = cueText.match(/^<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+    if (voice) {
+      cueText = cueText.substring(voice[0].length).replace(/<\/v>/g, '');
+    }
+
+    cues.push({ start, end, text: stripTags(cueText), speaker: voice?.[1].trim() });
+  }
+
+  return cues;
+}
+
+function parseASS(text: string): SubtitleCue[] {
+  const lines = text.split('\n');
+  const cues: SubtitleCue[] = [];
+  let section = '';
+  let fields = ASS_EVENT_FIELDS;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    const lineNumber = index + 1;
+
+    if (/^\[.+\]$/.test(line)) {
+      section = line.toLowerCase();
+      return;
+    }
+    if (section !== '[events]') {
+      return;
+    }
+
+    if (line.startsWith('Format:')) {
+      fields = line.substring(7).split(',').map(field => field.trim());
+      if (!fields.includes('Start') || !fields.includes('End') || fields[fields.length - 1] !== 'Text') {
+        throw new SubtitleParseError('linha Format de [Events] deve ter Start, End e terminar em Text', lineNumber);
+      }
+      return;
+    }
+
+    if (!line.startsWith('Dialogue:')) {
+      return;
+    }
+
+    // O texto é o último campo e pode conter vírgulas
+    const values = line.substring(9).trim().split(',');
+    if (values.length < fields.length) {
+      throw new SubtitleParseError(`Dialogue com ${values.length} campos, esperados ${fields.length}`, lineNumber);
+    }
+    const head = values.slice(0, fields.length - 1);
+    const value = (field: string) => head[fields.indexOf(field)]?.trim() ?? '';
+
+    const start = parseClock(value('Start'), lineNumber);
+    const end = parseClock(value('End'), lineNumber);
+    checkInterval(start, end, lineNumber);
+
+    const dialogueText = values.slice(fields.length - 1).join(',')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\\[Nn]/g, '\n')
+      .replace(/\\h/g, ' ')
+      .trim();
+
+    // O serializador repete o falante no texto ("Ana: ...") para que apareça na tela: removido para não duplicar
+    const speaker = value('Name') || undefined;
+    const text = speaker && dialogueText.startsWith(`${speaker}: `)
+      ? dialogueText.substring(speaker.length + 2)
+      : dialogueText;
+
+    cues.push({ start, end, text, speaker });
+  });
+
+  return cues;
+}
+
+function parseTTML(text: string): SubtitleCue[] {
+  const rootAttributes = text.match(/<tt\b([^>]*)>/)?.[1];
+  if (rootAttributes === undefined) {
+    throw new SubtitleParseError('elemento <tt> não encontrado', 1);
+  }
+
+  const frameRate = parseFloat(readAttribute(rootAttributes, 'ttp:frameRate') || '30');
+  const tickRate = parseFloat(readAttribute(rootAttributes, 'ttp:tickRate') || '1');
+  const cues: SubtitleCue[] = [];
+  const paragraph = /<p\b([^>]*?)(?:\/>|>([\s\S]*?)<\/p>)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = paragraph.exec(text)) !== null) {
+    const lineNumber = text.substring(0, match.index).split('\n').length;
+    const attributes = match[1];
+
+    const begin = readAttribute(attributes, 'begin');
+    if (begin === undefined) {
+      throw new SubtitleParseError('<p> sem atributo "begin"', lineNumber);
+    }
+    const start = parseTTMLTime(begin, lineNumber, frameRate, tickRate);
+
+    const endValue = readAttribute(attributes, 'end');
+    const duration = readAttribute(attributes, 'dur');
+    if (endValue === undefined && duration === undefined) {
+      throw new SubtitleParseError('<p> sem atributo "end" ou "dur"', lineNumber);
+    }
+    const end = endValue !== undefined
+      ? parseTTMLTime(endValue, lineNumber, frameRate, tickRate)
+      : start + parseTTMLTime(duration!, lineNumber, frameRate, tickRate);
+    checkInterval(start, end, lineNumber);
+
+    const paragraphText = (match[2] || '')
+      .replace(/\s+/g, ' ')
+      .replace(/\s*<br\s*\/?>\s*/g, '\n');
+
+    cues.push({
+      start,
+      end,
+      text: decodeEntities(paragraphText.replace(/<[^>]+>/g, '')).split('\n').map(line => line.trim()).join('\n').trim()
+    });
+  }
+
+  return cues;
+}
+
+function parseSBV(text: string): SubtitleCue[] {
+  const lines = text.split('\n');
+  const cues: SubtitleCue[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].trim() === '') {
+      i++;
+      continue;
+    }
+
+    const [start, end] = parseTiming(lines[i], i + 1, /^\s*([\d:.]+),([\d:.]+)\s*$/);
+    const textLines: string[] = [];
+    for (i++; i < lines.length && lines[i].trim() !== ''; i++) {
+      textLines.push(lines[i].trim());
+    }
+
+    cues.push({ start, end, text: textLines.join('\n') });
+  }
+
+  return cues;
+}
+
+function parseJSON(text: string): SubtitleCue[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error: any) {
+    const position = error.message.match(/position (\d+)/)?.[1];
+    const line = position !== undefined ? text.substring(0, parseInt(position, 10)).split('\n').length : undefined;
+    throw new SubtitleParseError(`JSON inválido: ${error.message}`, line);
+  }
+
+  const items = Array.isArray(data) ? data : data?.segments;
+  if (!Array.isArray(items)) {
+    throw new SubtitleParseError('JSON deve ser um array de {start, end, text} ou um objeto com "segments"');
+  }
+
+  return items.map((item: any, index: number) => {
+    const start = Number(item?.start);
+    const end = Number(item?.end);
+    if (!item || typeof item.text !== 'string' || isNaN(start) || isNaN(end)) {
+      throw new SubtitleParseError(`segmento ${index + 1} deve ter "start", "end" (segundos) e "text"`);
+    }
+    if (end < start) {
+      throw new SubtitleParseError(`segmento ${index + 1} termina antes de começar`);
+    }
+
+    return {
+      start,
+      end,
+      text: item.text,
+      speaker: typeof item.speaker === 'string' ? item.speaker : undefined
+    };
+  });
+}
+
+function serializeASS(cues: SubtitleCue[], format: 'ass' | 'ssa', options: SerializeOptions): string {
+  const main = options.style ? assStyleFields(options.style) : DEFAULT_ASS_FIELDS;
+  const bilingual = options.bilingual && cues.some(cue => cue.originalText);
+  const position = options.bilingual?.position || 'above';
+
+  const styleRecords: Array<[string, Record<string, string | number>]> = [['Default', main]];
+  if (bilingual) {
+    const original = options.bilingual!.style
+      ? assStyleFields(options.bilingual!.style)
+      : { ...main, FontSize: Math.round(Number(main.FontSize) * 0.75), Italic: -1 };
+    // No topo da tela, o original vira um evento próprio alinhado em cima
+    styleRecords.push(['Original', position === 'top' ? { ...original, Alignment: 8 } : original]);
+  }
+
+  const escape = (text: string) => text
+    .replace(/\n/g, '\\N')
+    .replace(/[{}]/g, match => (match === '{' ? '(' : ')'));
+
+  const events = cues.flatMap(cue => {
+    const name = cue.speaker || '';
+    const times = `${formatASSClock(cue.start)},${formatASSClock(cue.end)}`;
+    const dialogue = (style: string, text: string) => format === 'ass'
+      ? `Dialogue: 0,${times},${style},${name},0,0,0,,${text}`
+      : `Dialogue: Marked=0,${times},${style},${name},0,0,0,,${text}`;
+
+    const text = escape(labeledText(cue, options));
+    if (!bilingual || !cue.originalText) {
+      return [dialogue('Default', text)];
+    }
+
+    // {\rOriginal} troca o estilo dentro do mesmo evento; {\r} volta ao estilo do evento
+    const original = escape(cue.originalText);
+    switch (position) {
+      case 'top':
+        return [dialogue('Default', text), dialogue('Original', original)];
+      case 'below':
+        return [dialogue('Default', `${text}\\N{\\rOriginal}${original}`)];
+      default:
+        return [dialogue('Default', `{\\rOriginal}${original}\\N{\\r}${text}`)];
+    }
+  });
+
+  const header = [
+    '[Script Info]',
+    `Title: ${options.title || 'Legendas'}`,
+    `ScriptType: ${format === 'ass' ? 'v4.00+' : 'v4.00'}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    // Sem o tamanho do vídeo, a mesma resolução de referência que o FFmpeg usa ao converter SRT
+    `PlayResX: ${options.playRes?.width || 384}`,
+    `PlayResY: ${options.playRes?.height || 288}`,
+    ''
+  ];
+
+  const styles = format === 'ass'
+    ? [
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      ...styleRecords.map(([name, fields]) => assStyleLine(name, fields)),
+      ''
+    ]
+    : [
+      '[V4 Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding',
+      ...styleRecords.map(([name, fields]) => ssaStyleLine(name, fields)),
+      ''
+    ];
+
+  return [
+    ...header,
+    ...styles,
+    '[Events]',
+    format === 'ass'
+      ? 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text'
+      : 'Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    ''
+  ].join('\n');
+}
+
+function assStyleLine(name: string, f: Record<string, string | number>): string {
+  return `Style: ${name},${f.FontName},${f.FontSize},${f.PrimaryColour},&H000000FF&,${f.OutlineColour},${f.BackColour},` +
+    `${f.Bold},${f.Italic},0,0,100,100,0,0,${f.BorderStyle},${f.Outline},${f.Shadow},${f.Alignment},${f.MarginL},${f.MarginR},${f.MarginV},1`;
+}
+
+/**
+ * SSA usa cores BGR decimais sem alfa e numera o alinhamento de outra forma (5-7 em cima, 9-11 no meio)
+ */
+function ssaStyleLine(name: string, f: Record<string, string | number>): string {
+  return `Style: ${name},${f.FontName},${f.FontSize},${toSSAColor(String(f.PrimaryColour))},255,` +
+    `${toSSAColor(String(f.OutlineColour))},${toSSAColor(String(f.BackColour))},${f.Bold},${f.Italic},` +
+    `${f.BorderStyle},${f.Outline},${f.Shadow},${toSSAAlignment(Number(f.Alignment))},${f.MarginL},${f.MarginR},${f.MarginV},0,1`;
+}
+
+function serializeTTML(cues: SubtitleCue[], format: 'ttml' | 'dfxp', options: SerializeOptions): string {
+  const paragraphs = cues.map(cue => {
+    const text = cueText(cue, options).split('\n').map(escapeXML).join('<br/>');
+    return `      <p begin="${formatClock(cue.start, '.')}" end="${formatClock(cue.end, '.')}">${text}</p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TTML_NAMESPACES[format]}" xml:lang="${escapeXML(options.language || 'und')}">`,
+    '  <body>',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    ''
+  ].join('\n');
+}
+
+function parseTiming(line: string | undefined, lineNumber: number, pattern: RegExp): [number, number] {
+  const match = line?.match(pattern);
+  if (!match) {
+    throw new SubtitleParseError(`linha de tempo inválida: "${(line || '').trim()}"`, lineNumber);
+  }
+
+  const start = parseClock(match[1], lineNumber);
+  const end = parseClock(match[2], lineNumber);
+  checkInterval(start, end, lineNumber);
+  return [start, end];
+}
+
+/**
+ * Lê [HH:]MM:SS[,.]fff — a fração pode ter 1 a 3 dígitos (centésimos no ASS)
+ */
+function parseClock(value: string, lineNumber: number): number {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) {
+    throw new SubtitleParseError(`tempo inválido: "${value.trim()}"`, lineNumber);
+  }
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return parseFloat((
+    parseInt(hours || '0', 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    (fraction ? parseFloat(`0.${fraction}`) : 0)
+  ).toFixed(3));
+}
+
+/**
+ * Expressões de tempo do TTML: relógio (HH:MM:SS.fff ou HH:MM:SS:quadros) ou deslocamento (1.5s, 500ms, 30f, 900t)
+ */
+function parseTTMLTime(value: string, lineNumber: number, frameRate: number, tickRate: number): number {
+  const clock = value.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return parseFloat((
+      parseInt(hours, 10) * 3600 +
+      parseInt(minutes, 10) * 60 +
+      parseInt(seconds, 10) +
+      (fraction ? parseFloat(`0.${fraction}`) : 0) +
+      (frames ? parseFloat(frames) / frameRate : 0)
+    ).toFixed(3));
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = parseFloat(offset[1]);
+    const units: Record<string, number> = { h: 3600, m: 60, s: 1, ms: 0.001, f: 1 / frameRate, t: 1 / tickRate };
+    return parseFloat((amount * units[offset[2]]).toFixed(3));
+  }
+
+  throw new SubtitleParseError(`tempo TTML inválido: "${value}"`, lineNumber);
+}
+
+function checkInterval(start: number, end: number, lineNumber: number): void {
+  if (end < start) {
+    throw new SubtitleParseError('legenda termina antes de começar', lineNumber);
+  }
+}
+
+function formatClock(seconds: number, separator: string, padHours: boolean = true): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  return `${padHours ? hours.toString().padStart(2, '0') : hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${separator}${milliseconds.toString().padStart(3, '0')}`;
+}
+
+function formatASSClock(seconds: number): string {
+  const totalCs = Math.max(0, Math.round(seconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  const centiseconds = totalCs % 100;
+
+  return `${hours}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${centiseconds.toString().padStart(2, '0')}`;
+}
+
+function labeledText(cue: SubtitleCue, options: SerializeOptions): string {
+  return cue.speaker && options.speakerLabels !== false ? `${cue.speaker}: ${cue.text}` : cue.text;
+}
+
+/**
+ * Texto para formatos sem estilos: nas legendas bilíngues, original e tradução em linhas separadas
+ */
+function cueText(cue: SubtitleCue, options: SerializeOptions): string {
+  const text = labeledText(cue, options);
+  if (!options.bilingual || !cue.originalText) {
+    return text;
+  }
+  return options.bilingual.position === 'below' ? `${text}\n${cue.originalText}` : `${cue.originalText}\n${text}`;
+}
+
+function parseHexColor(hex: string): { r: number; g: number; b: number; a: number } {
+  let value = hex.replace('#', '');
+  if (value.length === 3) {
+    value = value.split('').map(char => char + char).join('');
+  }
+
+  return {
+    r: parseInt(value.substr(0, 2), 16),
+    g: parseInt(value.substr(2, 2), 16),
+    b: parseInt(value.substr(4, 2), 16),
+    a: value.length === 8 ? parseInt(value.substr(6, 2), 16) : 255
+  };
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(2, '0').toUpperCase();
+}
+
+function toSSAColor(assColor: string): number {
+  // &HAABBGGRR& -> BBGGRR em decimal (o SSA não tem alfa por cor)
+  return parseInt(assColor.replace(/[&H]/g, '').slice(-6), 16);
+}
+
+function toSSAAlignment(alignment: number): number {
+  if (alignment >= 7) {
+    return alignment - 2;
+  }
+  if (alignment >= 4) {
+    return alignment + 5;
+  }
+  return alignment;
+}
+
+function readAttribute(attributes: string, name: string): string | undefined {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return attributes.match(new RegExp(`(?:^|\\s)${escaped}\\s*=\\s*["']([^"']*)["']`))?.[1];
+}
+
+function stripTags(text: string): string {
+  return decodeEntities(text.replace(/<[^>]+>/g, ''));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#(\d+);/g, (entity, code) => fromCodePoint(parseInt(code, 10), entity))
+    .replace(/&#x([0-9a-f]+);/gi, (entity, code) => fromCodePoint(parseInt(code, 16), entity))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Referências fora do Unicode (ex.: &#99999999;) ficam como estão em vez de lançar RangeError
+ */
+function fromCodePoint(code: number, entity: string): string {
+  return code <= 0x10FFFF ? String.fromCodePoint(code) : entity;
+}
+
+function escapeVTT(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeXML(text: string): string {
+  return escapeVTT(text).replace(/"/g, '&quot;');
+}
+
+function normalizeContent(content: string): string {
+  return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}